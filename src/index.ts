@@ -14,18 +14,60 @@
 
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ElicitResultSchema, type ElicitResult, type LoggingLevel, type ServerNotification, type ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { LLMClient, type Model } from "@blockrun/llm";
-import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { generatePrivateKey, privateKeyToAccount, signTypedData } from "viem/accounts";
+import { keccak256 } from "viem";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import * as crypto from "crypto";
+import * as http from "http";
+import { execSync } from "child_process";
+import { createRequire } from "module";
+import { AsyncLocalStorage } from "async_hooks";
+import { parseArgs } from "util";
+
+// Package version, from the package.json one level above dist/ (or src/)
+const { version: VERSION } = createRequire(import.meta.url)("../package.json") as { version: string };
 
 // Wallet file location (matches Python SDK)
 const WALLET_DIR = path.join(os.homedir(), ".blockrun");
-const WALLET_FILE = path.join(WALLET_DIR, ".session");
+const WALLET_FILE_NAME = ".session";
+
+// Append-only spending ledger (one JSON entry per paid call), one per profile
+const LEDGER_FILE_NAME = "ledger.jsonl";
+
+// Named wallet profiles, each with its own key and ledger. The default
+// profile keeps the original ~/.blockrun/.session and ledger.
+const PROFILES_DIR = path.join(WALLET_DIR, "profiles");
+const DEFAULT_PROFILE = "default";
+
+// Opt-in cache of chat responses (one JSON file per request hash)
+const CACHE_DIR = path.join(WALLET_DIR, "cache");
+const DEFAULT_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_CACHE_MAX_MB = 100;
+
+// Local vector index (one JSON file per collection)
+const INDEX_DIR = path.join(WALLET_DIR, "index");
+
+// Saved multi-turn conversations (one JSON file per conversation)
+const CONVERSATIONS_DIR = path.join(WALLET_DIR, "conversations");
+
+// HTTP mode: each token's own conversations, index and cache
+const CLIENTS_DIR = path.join(WALLET_DIR, "clients");
+
+// Where generated images are saved (override with BLOCKRUN_IMAGE_DIR)
+const IMAGE_DIR = process.env.BLOCKRUN_IMAGE_DIR || path.join(WALLET_DIR, "images");
 
-// Model categories for smart routing
+// User config, and a project-local override in the working directory
+const GLOBAL_CONFIG_FILE = path.join(WALLET_DIR, "config.json");
+const PROJECT_CONFIG_FILE = path.join(process.cwd(), ".blockrun", "config.json");
+
+// Model categories for smart routing (built-in; the config file can override or add tiers)
 const MODEL_TIERS = {
   fast: ["google/gemini-2.5-flash", "openai/gpt-4o-mini", "deepseek/deepseek-chat"],
   balanced: ["openai/gpt-4o", "anthropic/claude-sonnet-4", "google/gemini-2.5-pro"],
@@ -36,88 +78,627 @@ const MODEL_TIERS = {
 
 type RoutingMode = keyof typeof MODEL_TIERS;
 
+// Grok with live search, for real-time/social prompts
+const REALTIME_MODEL = "xai/grok-3";
+
+// Large-context models for "auto" routing of long prompts
+const LONG_CONTEXT_MODELS = ["google/gemini-2.5-pro", "google/gemini-2.5-flash", "anthropic/claude-sonnet-4"];
+
+// Prompts over this many tokens are routed as long-context
+const LONG_CONTEXT_TOKENS = 30000;
+
+// Vision-capable model families, for catalog entries that don't list capabilities
+const VISION_MODEL_PATTERNS = [/gpt-4o/, /gpt-4\.1/, /gpt-5/, /\/o[13]($|-)/, /claude/, /gemini/, /grok-.*vision/, /nano-banana/];
+
+// Rough input tokens per image, for cost estimates
+const IMAGE_INPUT_TOKENS = 1000;
+
+// Providers whose models accept an OpenAI-style json_schema response_format
+const STRUCTURED_OUTPUT_PROVIDERS = ["openai/", "google/", "xai/"];
+
+// Per-request context passed to tool handlers (progress token, abort signal, ...)
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 // Track if wallet was newly created (for user notification)
 let walletWasCreated = false;
 let walletAddress: string | null = null;
 
 // Initialize client with auto wallet management
 let client: LLMClient | null = null;
+let walletKey: `0x${string}` | null = null;
 let cachedModels: Model[] | null = null;
+let activeProfile = process.env.BLOCKRUN_PROFILE || DEFAULT_PROFILE;
+
+// Chain used for payments and balance lookups, chosen at startup (see resolveNetwork)
+let network: NetworkConfig;
 
 // Session budget tracking
 interface BudgetState {
   limit: number | null;  // USD limit, null = unlimited
   spent: number;         // Total spent this session
   calls: number;         // Number of API calls
+  reserved: number;      // Estimated cost of calls still in flight
+}
+let sessionBudget: BudgetState = { limit: null, spent: 0, calls: 0, reserved: 0 };
+
+// Session budgets of profiles that aren't active, kept across switches
+const profileBudgets = new Map<string, BudgetState>();
+
+// HTTP mode: a bearer token and the budget it spends against
+interface HttpClient {
+  name: string;
+  tokenHash: Buffer;         // sha256 of the token
+  budget: BudgetState;
+  maxLimit: number | null;   // Operator-set limit the client can't raise
+}
+
+// HTTP mode: the client making the current request
+const clientScope = new AsyncLocalStorage<HttpClient>();
+
+// Last successful on-chain balance lookup
+let lastKnownBalance: { balance: number; checkedAt: string } | null = null;
+
+// Fallback cost estimate when a model's pricing is unknown
+const DEFAULT_CALL_ESTIMATE = 0.01;
+
+// Fallback context window (tokens) when the catalog doesn't list one
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+// Cheap model used to summarize conversation history that no longer fits
+const SUMMARY_MODEL = "google/gemini-2.5-flash";
+
+// Default judge for blockrun_consensus
+const DEFAULT_JUDGE_MODEL = "anthropic/claude-sonnet-4";
+
+// Embedding model for blockrun_embed and new index collections
+const DEFAULT_EMBEDDING_MODEL = "openai/text-embedding-3-small";
+
+// Default port for --http mode
+const DEFAULT_HTTP_PORT = 3402;
+
+// Appended to responses served from the response cache
+const CACHED_NOTE = "\n\n[Cached response: no payment made]";
+
+// How long to wait for the user to approve a payment
+const CONFIRM_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Minimum gap between streamed progress notifications
+const PROGRESS_INTERVAL_MS = 200;
+
+// Attachment limits for blockrun_chat / blockrun_smart
+const MAX_ATTACHMENT_BYTES = 256 * 1024;         // Per file
+const MAX_ATTACHMENTS_TOTAL_BYTES = 1024 * 1024; // Per call
+const MAX_GLOB_MATCHES = 100;
+
+// Fence language tags by file extension
+const ATTACHMENT_LANGUAGES: Record<string, string> = {
+  ts: "typescript", tsx: "tsx", js: "javascript", jsx: "jsx", mjs: "javascript", cjs: "javascript",
+  py: "python", rb: "ruby", go: "go", rs: "rust", java: "java", kt: "kotlin", swift: "swift",
+  c: "c", h: "c", cpp: "cpp", cc: "cpp", hpp: "cpp", cs: "csharp", php: "php", sol: "solidity",
+  sh: "bash", bash: "bash", zsh: "bash", sql: "sql", html: "html", css: "css", scss: "scss",
+  json: "json", yaml: "yaml", yml: "yaml", toml: "toml", xml: "xml", md: "markdown",
+};
+
+// Worst-case per-image prices, for catalog entries without pricePerImage
+const IMAGE_COST_ESTIMATES: Record<string, number> = {
+  "openai/dall-e-3": 0.08,
+  "together/flux-schnell": 0.02,
+  "google/nano-banana": 0.05,
+};
+
+// Image capabilities, for catalog entries that don't list their own
+const IMAGE_CAPABILITIES: Record<string, ImageMode[]> = {
+  "openai/dall-e-2": ["generate", "edit", "variation"],
+  "openai/gpt-image-1": ["generate", "edit"],
+  "google/nano-banana": ["generate", "edit"],
+};
+
+// Chains BlockRun accepts payment on
+type NetworkId = "base" | "base-sepolia";
+
+interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chainId: number;
+  caip2: string;        // x402 network id
+  testnet: boolean;
+  usdc: { address: `0x${string}`; name: string; version: string };  // Contract and its EIP-712 domain
+  rpcUrls: string[];    // Tried in order for balance lookups
+  explorerUrl: string;
+  apiUrl: string;       // BlockRun API (x402-protected endpoints)
+}
+
+const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  base: {
+    id: "base",
+    name: "Base",
+    chainId: 8453,
+    caip2: "eip155:8453",
+    testnet: false,
+    usdc: { address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", name: "USD Coin", version: "2" },
+    rpcUrls: [
+      "https://mainnet.base.org",
+      "https://base.llamarpc.com",
+      "https://1rpc.io/base",
+    ],
+    explorerUrl: "https://basescan.org",
+    apiUrl: "https://blockrun.ai/api",
+  },
+  "base-sepolia": {
+    id: "base-sepolia",
+    name: "Base Sepolia",
+    chainId: 84532,
+    caip2: "eip155:84532",
+    testnet: true,
+    usdc: { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", name: "USDC", version: "2" },
+    rpcUrls: [
+      "https://sepolia.base.org",
+      "https://base-sepolia-rpc.publicnode.com",
+    ],
+    explorerUrl: "https://sepolia.basescan.org",
+    apiUrl: "https://testnet.blockrun.ai/api",
+  },
+};
+
+// Free testnet USDC for Base Sepolia
+const TESTNET_USDC_FAUCET = "https://faucet.circle.com";
+
+// ============================================================================
+// WALLET KEYSTORE
+// ============================================================================
+
+// Ethereum V3 keystore (the format geth, MetaMask and ethers use)
+interface Keystore {
+  version: 3;
+  id: string;
+  address: string;
+  crypto: {
+    cipher: "aes-128-ctr";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+// scrypt work factor used by geth's "standard" keystores
+const KEYSTORE_SCRYPT_N = 262144;
+
+/**
+ * Passphrase for the wallet keystore, from BLOCKRUN_KEYSTORE_PASSPHRASE or the
+ * output of BLOCKRUN_KEYSTORE_PASSPHRASE_CMD (e.g. a keyring lookup).
+ * Returns null when neither is set.
+ */
+function getKeystorePassphrase(): string | null {
+  if (process.env.BLOCKRUN_KEYSTORE_PASSPHRASE) {
+    return process.env.BLOCKRUN_KEYSTORE_PASSPHRASE;
+  }
+
+  const command = process.env.BLOCKRUN_KEYSTORE_PASSPHRASE_CMD;
+  if (!command) return null;
+
+  let output: string;
+  try {
+    output = execSync(command, { encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"], timeout: 30000 });
+  } catch (err) {
+    throw new Error(`BLOCKRUN_KEYSTORE_PASSPHRASE_CMD failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const passphrase = output.replace(/\r?\n$/, "");
+  if (!passphrase) {
+    throw new Error("BLOCKRUN_KEYSTORE_PASSPHRASE_CMD printed an empty passphrase");
+  }
+  return passphrase;
+}
+
+function deriveKeystoreKey(passphrase: string, params: Keystore["crypto"]["kdfparams"], kdf: Keystore["crypto"]["kdf"]): Buffer {
+  const salt = Buffer.from(params.salt, "hex");
+  if (kdf === "pbkdf2") {
+    if (params.prf !== "hmac-sha256") {
+      throw new Error(`Unsupported keystore PRF: ${params.prf}`);
+    }
+    return crypto.pbkdf2Sync(passphrase, salt, params.c!, params.dklen, "sha256");
+  }
+  const N = params.n!, r = params.r!, p = params.p!;
+  return crypto.scryptSync(passphrase, salt, params.dklen, { N, r, p, maxmem: 256 * N * r });
+}
+
+function keystoreMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+/**
+ * Encrypt a private key into a V3 keystore (scrypt + AES-128-CTR)
+ */
+function encryptKeystore(privateKey: `0x${string}`, passphrase: string): Keystore {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(16);
+  const kdfparams = { dklen: 32, salt: salt.toString("hex"), n: KEYSTORE_SCRYPT_N, r: 8, p: 1 };
+  const derivedKey = deriveKeystoreKey(passphrase, kdfparams, "scrypt");
+
+  const cipher = crypto.createCipheriv("aes-128-ctr", derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), "hex")), cipher.final()]);
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: privateKeyToAccount(privateKey).address.slice(2).toLowerCase(),
+    crypto: {
+      cipher: "aes-128-ctr",
+      cipherparams: { iv: iv.toString("hex") },
+      ciphertext: ciphertext.toString("hex"),
+      kdf: "scrypt",
+      kdfparams,
+      mac: keystoreMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/**
+ * Decrypt a V3 keystore. Throws on a wrong passphrase instead of returning garbage.
+ */
+function decryptKeystore(keystore: Keystore, passphrase: string, file = walletFile()): `0x${string}` {
+  if (keystore.version !== 3 || keystore.crypto?.cipher !== "aes-128-ctr") {
+    throw new Error("Unsupported keystore format (expected a V3 keystore using aes-128-ctr)");
+  }
+
+  const derivedKey = deriveKeystoreKey(passphrase, keystore.crypto.kdfparams, keystore.crypto.kdf);
+  const ciphertext = Buffer.from(keystore.crypto.ciphertext, "hex");
+  const expectedMac = Buffer.from(keystore.crypto.mac, "hex");
+  const actualMac = Buffer.from(keystoreMac(derivedKey, ciphertext), "hex");
+  if (expectedMac.length !== actualMac.length || !crypto.timingSafeEqual(expectedMac, actualMac)) {
+    throw new Error(`Wrong passphrase for the encrypted wallet at ${file}`);
+  }
+
+  const decipher = crypto.createDecipheriv("aes-128-ctr", derivedKey.subarray(0, 16), Buffer.from(keystore.crypto.cipherparams.iv, "hex"));
+  const key = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${key.toString("hex")}`;
+}
+
+/**
+ * Parse the wallet file, which holds either a plaintext hex key or a V3 keystore
+ */
+function readWalletFile(file = walletFile()): { key: `0x${string}` } | { keystore: Keystore } | null {
+  const contents = fs.readFileSync(file, "utf-8").trim();
+  if (contents.startsWith("{")) {
+    return { keystore: JSON.parse(contents) as Keystore };
+  }
+  if (contents.startsWith("0x") && contents.length === 66) {
+    return { key: contents as `0x${string}` };
+  }
+  return null;
+}
+
+/**
+ * Write the wallet file via a temp file so a crash can't leave a half-written wallet
+ * behind. Unless `replace` is set, fails with EEXIST rather than overwrite a wallet.
+ */
+function writeWalletFile(contents: string, file = walletFile(), replace = false): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const tmpFile = `${file}.tmp`;
+  fs.writeFileSync(tmpFile, contents, { mode: 0o600 });
+  try {
+    if (replace) {
+      fs.renameSync(tmpFile, file);
+    } else {
+      fs.linkSync(tmpFile, file);  // Atomic, and never clobbers an existing file
+    }
+  } finally {
+    fs.rmSync(tmpFile, { force: true });
+  }
+}
+
+/**
+ * Generate a wallet and save it to a file, encrypted if a passphrase is configured
+ */
+function createWalletFile(file: string): `0x${string}` {
+  const passphrase = getKeystorePassphrase();
+  const key = generatePrivateKey();
+  writeWalletFile(passphrase ? JSON.stringify(encryptKeystore(key, passphrase), null, 2) : key, file);
+  console.error(`[BlockRun] New ${passphrase ? "encrypted " : ""}wallet created and saved to ${file}`);
+  return key;
 }
-let sessionBudget: BudgetState = { limit: null, spent: 0, calls: 0 };
 
-// USDC contract on Base
-const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-const BASE_RPC_URLS = [
-  "https://mainnet.base.org",
-  "https://base.llamarpc.com",
-  "https://1rpc.io/base",
-];
+/**
+ * Encrypt an existing plaintext wallet file in place (npx @blockrun/mcp --encrypt-wallet)
+ */
+function encryptWalletFile(): void {
+  const passphrase = getKeystorePassphrase();
+  if (!passphrase) {
+    throw new Error("Set BLOCKRUN_KEYSTORE_PASSPHRASE or BLOCKRUN_KEYSTORE_PASSPHRASE_CMD before encrypting the wallet");
+  }
+  const file = walletFile();
+  if (!fs.existsSync(file)) {
+    throw new Error(`No wallet file at ${file}`);
+  }
+
+  const wallet = readWalletFile();
+  if (!wallet) {
+    throw new Error(`${file} does not contain a private key`);
+  }
+  if ("keystore" in wallet) {
+    // Confirms the passphrase matches before reporting success
+    decryptKeystore(wallet.keystore, passphrase);
+    console.error(`[BlockRun] ${file} is already encrypted`);
+    return;
+  }
+
+  const keystore = encryptKeystore(wallet.key, passphrase);
+  if (decryptKeystore(keystore, passphrase) !== wallet.key.toLowerCase()) {
+    throw new Error("Keystore round-trip check failed; wallet file left unchanged");
+  }
+  writeWalletFile(JSON.stringify(keystore, null, 2), file, true);
+  console.error(`[BlockRun] Encrypted wallet ${privateKeyToAccount(wallet.key).address} in ${file}`);
+}
 
 /**
- * Get or create wallet private key
+ * Get or create the active profile's wallet private key
  * Priority:
- * 1. Environment variable BLOCKRUN_WALLET_KEY or BASE_CHAIN_WALLET_KEY
- * 2. Existing file at ~/.blockrun/.session
- * 3. Generate new wallet and save to file
+ * 1. Environment variable BLOCKRUN_WALLET_KEY or BASE_CHAIN_WALLET_KEY (default profile only)
+ * 2. Existing wallet file, e.g. ~/.blockrun/.session (plaintext or encrypted keystore)
+ * 3. Generate new wallet and save to file (encrypted if a passphrase is configured)
  */
 function getOrCreateWalletKey(): `0x${string}` {
+  const file = walletFile();
+
   // 1. Check environment variables
-  const envKey = process.env.BLOCKRUN_WALLET_KEY || process.env.BASE_CHAIN_WALLET_KEY;
+  const envKey = activeProfile === DEFAULT_PROFILE
+    ? process.env.BLOCKRUN_WALLET_KEY || process.env.BASE_CHAIN_WALLET_KEY
+    : undefined;
   if (envKey) {
     const account = privateKeyToAccount(envKey as `0x${string}`);
     walletAddress = account.address;
     return envKey as `0x${string}`;
   }
 
-  // 2. Check existing wallet file
-  if (fs.existsSync(WALLET_FILE)) {
+  // 2. Check existing wallet file. Never fall through to a new wallet when one
+  // exists but can't be used: that would orphan (or overwrite) the funded key.
+  if (fs.existsSync(file)) {
+    let wallet: ReturnType<typeof readWalletFile>;
     try {
-      const savedKey = fs.readFileSync(WALLET_FILE, "utf-8").trim();
-      if (savedKey.startsWith("0x") && savedKey.length === 66) {
-        const account = privateKeyToAccount(savedKey as `0x${string}`);
-        walletAddress = account.address;
-        return savedKey as `0x${string}`;
+      wallet = readWalletFile(file);
+    } catch (err) {
+      if (err instanceof SyntaxError) {
+        throw new Error(`The encrypted wallet at ${file} is not valid JSON: ${err.message}`);
       }
-    } catch {
-      // File exists but can't be read, will create new
+      throw new Error(`Could not read the wallet at ${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!wallet) {
+      throw new Error(`${file} exists but does not contain a private key or keystore. Fix or move it to create a new wallet.`);
+    }
+
+    if ("keystore" in wallet) {
+      const passphrase = getKeystorePassphrase();
+      if (!passphrase) {
+        throw new Error(
+          `The wallet at ${file} is encrypted. Set BLOCKRUN_KEYSTORE_PASSPHRASE or BLOCKRUN_KEYSTORE_PASSPHRASE_CMD to unlock it.`
+        );
+      }
+      const key = decryptKeystore(wallet.keystore, passphrase, file);
+      walletAddress = privateKeyToAccount(key).address;
+      return key;
+    }
+
+    const account = privateKeyToAccount(wallet.key);
+    walletAddress = account.address;
+    if (getKeystorePassphrase()) {
+      console.error(`[BlockRun] Warning: ${file} is plaintext. Run "npx @blockrun/mcp --encrypt-wallet" to encrypt it.`);
     }
+    return wallet.key;
   }
 
-  // 3. Generate new wallet
-  const newKey = generatePrivateKey();
-  const account = privateKeyToAccount(newKey);
-  walletAddress = account.address;
+  // 3. Generate new wallet and save to file
+  let newKey: `0x${string}`;
+  try {
+    newKey = createWalletFile(file);
+  } catch (err) {
+    // Another process created the wallet first: use that one on the next call instead
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`A wallet was created at ${file} while this one was being saved; retry to use it`);
+    }
+    newKey = generatePrivateKey();
+    console.error(`[BlockRun] Warning: Could not save wallet to file: ${err}`);
+  }
+  walletAddress = privateKeyToAccount(newKey).address;
   walletWasCreated = true;
 
-  // Save to file
+  return newKey;
+}
+
+// ============================================================================
+// WALLET PROFILES
+// ============================================================================
+
+// Settings saved with a named profile
+interface ProfileMeta {
+  createdAt: string;
+  budget: number | null;  // Session budget applied when the profile is activated
+}
+
+interface ProfileSummary {
+  name: string;
+  address: string | null;  // null if the wallet file is missing or unreadable
+  active: boolean;
+  budget: number | null;
+}
+
+function isValidProfileName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]{0,31}$/i.test(name);
+}
+
+function profileDir(profile: string): string {
+  return profile === DEFAULT_PROFILE ? WALLET_DIR : path.join(PROFILES_DIR, profile);
+}
+
+function walletFile(profile = activeProfile): string {
+  return path.join(profileDir(profile), WALLET_FILE_NAME);
+}
+
+function ledgerFile(profile = activeProfile): string {
+  return path.join(profileDir(profile), LEDGER_FILE_NAME);
+}
+
+/**
+ * Where a local store (conversations, index, cache) lives for the current caller.
+ * HTTP clients each get their own copy so tokens can't see each other's data.
+ */
+function storeDir(dir: string): string {
+  const client = clientScope.getStore();
+  return client ? path.join(CLIENTS_DIR, client.name, path.basename(dir)) : dir;
+}
+
+function readProfileMeta(profile: string): ProfileMeta | null {
+  if (profile === DEFAULT_PROFILE) return { createdAt: "", budget: null };
+  if (!isValidProfileName(profile)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(path.join(profileDir(profile), "profile.json"), "utf-8")) as ProfileMeta;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wallet address of a profile without decrypting its key
+ */
+function profileAddress(profile: string): string | null {
+  const envKey = profile === DEFAULT_PROFILE
+    ? process.env.BLOCKRUN_WALLET_KEY || process.env.BASE_CHAIN_WALLET_KEY
+    : undefined;
   try {
-    if (!fs.existsSync(WALLET_DIR)) {
-      fs.mkdirSync(WALLET_DIR, { recursive: true, mode: 0o700 });
+    if (envKey) return privateKeyToAccount(envKey as `0x${string}`).address;
+    const wallet = readWalletFile(walletFile(profile));
+    if (!wallet) return null;
+    return "keystore" in wallet ? `0x${wallet.keystore.address}` : privateKeyToAccount(wallet.key).address;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * All profiles: the default one plus every directory under ~/.blockrun/profiles
+ */
+function listProfiles(): ProfileSummary[] {
+  const names = [DEFAULT_PROFILE];
+  if (fs.existsSync(PROFILES_DIR)) {
+    for (const entry of fs.readdirSync(PROFILES_DIR, { withFileTypes: true })) {
+      if (entry.isDirectory() && isValidProfileName(entry.name) && readProfileMeta(entry.name)) {
+        names.push(entry.name);
+      }
     }
-    fs.writeFileSync(WALLET_FILE, newKey, { mode: 0o600 });
-    console.error(`[BlockRun] New wallet created and saved to ${WALLET_FILE}`);
+  }
+  return names.map(name => ({
+    name,
+    address: profileAddress(name),
+    active: name === activeProfile,
+    budget: readProfileMeta(name)?.budget ?? null,
+  }));
+}
+
+/**
+ * Create a named profile with a fresh wallet
+ */
+function createProfile(name: string, budget: number | null): ProfileSummary {
+  if (!isValidProfileName(name) || name === DEFAULT_PROFILE) {
+    throw new Error(`Invalid profile name '${name}'. Use up to 32 letters, digits, '-' or '_'.`);
+  }
+  const dir = profileDir(name);
+  if (fs.existsSync(dir)) {
+    throw new Error(`Profile '${name}' already exists`);
+  }
+
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const meta: ProfileMeta = { createdAt: new Date().toISOString(), budget };
+  fs.writeFileSync(path.join(dir, "profile.json"), JSON.stringify(meta, null, 2), { mode: 0o600 });
+  const key = createWalletFile(walletFile(name));
+
+  return { name, address: privateKeyToAccount(key).address, active: false, budget };
+}
+
+/**
+ * Make a profile active: its wallet signs payments, its ledger records them,
+ * and its session budget applies. The wallet is unlocked up front so a
+ * wrong passphrase fails the switch instead of the next paid call.
+ */
+function switchProfile(name: string): void {
+  const meta = readProfileMeta(name);
+  if (!meta) {
+    throw new Error(`Unknown profile '${name}'. Available: ${listProfiles().map(p => p.name).join(", ")}`);
+  }
+
+  const previous = { activeProfile, client, walletKey, walletAddress, walletWasCreated, sessionBudget, lastKnownBalance };
+  profileBudgets.set(activeProfile, sessionBudget);
+
+  activeProfile = name;
+  client = null;
+  walletKey = null;
+  walletAddress = null;
+  walletWasCreated = false;
+  lastKnownBalance = null;
+  sessionBudget = profileBudgets.get(name) ?? { limit: meta.budget, spent: 0, calls: 0, reserved: 0 };
+
+  try {
+    getWalletKey();
   } catch (err) {
-    console.error(`[BlockRun] Warning: Could not save wallet to file: ${err}`);
+    ({ activeProfile, client, walletKey, walletAddress, walletWasCreated, sessionBudget, lastKnownBalance } = previous);
+    throw err;
   }
+}
 
-  return newKey;
+function getWalletKey(): `0x${string}` {
+  if (!walletKey) {
+    walletKey = getOrCreateWalletKey();
+  }
+  return walletKey;
 }
 
 function getClient(): LLMClient {
   if (!client) {
-    const privateKey = getOrCreateWalletKey();
-    client = new LLMClient({ privateKey });
+    client = new LLMClient({ privateKey: getWalletKey(), apiUrl: network.apiUrl });
   }
   return client;
 }
 
+/**
+ * Get the model catalog (cached for 5 minutes)
+ */
+async function getModels(): Promise<Model[]> {
+  if (!cachedModels) {
+    cachedModels = await getClient().listModels();
+    setTimeout(() => { cachedModels = null; }, 5 * 60 * 1000);
+  }
+  return cachedModels;
+}
+
+/**
+ * Pick the network from BLOCKRUN_NETWORK or the config file (default Base mainnet)
+ */
+function resolveNetwork(): NetworkConfig {
+  const id = process.env.BLOCKRUN_NETWORK || config.network || "base";
+  if (!Object.hasOwn(NETWORKS, id)) {
+    throw new Error(`Unknown network '${id}' in BLOCKRUN_NETWORK. Use one of: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return NETWORKS[id as NetworkId];
+}
+
+/**
+ * Network name and chain id as shown in wallet output, flagged when it's a testnet
+ */
+function networkLabel(): string {
+  return `${network.name} (Chain ID: ${network.chainId})${network.testnet ? " - TESTNET, no real funds" : ""}`;
+}
+
+function explorerAddressUrl(address: string): string {
+  return `${network.explorerUrl}/address/${address}`;
+}
+
 /**
  * Get wallet info object
  */
@@ -125,17 +706,21 @@ function getWalletInfo() {
   const llm = getClient();
   const address = llm.getWalletAddress();
   return {
+    profile: activeProfile,
     address,
-    network: "Base",
-    chainId: 8453,
+    network: network.name,
+    chainId: network.chainId,
+    testnet: network.testnet,
     currency: "USDC",
     isNew: walletWasCreated,
-    basescanUrl: `https://basescan.org/address/${address}`,
-    fundingOptions: {
-      coinbase: "Send USDC, select 'Base' network",
-      bridge: "https://bridge.base.org",
-      buy: "https://www.coinbase.com/onramp",
-    },
+    basescanUrl: explorerAddressUrl(address),
+    fundingOptions: network.testnet
+      ? { faucet: TESTNET_USDC_FAUCET }
+      : {
+        coinbase: "Send USDC, select 'Base' network",
+        bridge: "https://bridge.base.org",
+        buy: "https://www.coinbase.com/onramp",
+      },
   };
 }
 
@@ -147,6 +732,34 @@ function getWalletSetupInstructions(): string {
     getClient(); // Initialize to get address
   }
 
+  if (network.testnet) {
+    return `
+================================================================================
+                  BLOCKRUN WALLET SETUP (${network.name.toUpperCase()} TESTNET)
+================================================================================
+
+Your wallet address: ${walletAddress}
+
+This server is on ${networkLabel()}.
+Payments use testnet USDC, which is free and has no value.
+
+GET TESTNET USDC:
+  1. Go to ${TESTNET_USDC_FAUCET}
+  2. Select USDC and the "${network.name}" network
+  3. Paste address: ${walletAddress}
+
+No ETH is needed: payments are signed off-chain and settled by BlockRun.
+
+VERIFY YOUR BALANCE:
+  ${explorerAddressUrl(walletAddress!)}
+
+Set the network to "base" (BLOCKRUN_NETWORK or "network" in the config file)
+to pay with real USDC on Base.
+
+================================================================================
+`;
+  }
+
   return `
 ================================================================================
                         BLOCKRUN WALLET SETUP
@@ -179,7 +792,7 @@ Option 3: Buy directly
   3. Send to: ${walletAddress}
 
 VERIFY YOUR BALANCE:
-  https://basescan.org/address/${walletAddress}
+  ${explorerAddressUrl(walletAddress!)}
 
 PRICING (pay only for what you use):
   - GPT-4o: ~$0.005 per request
@@ -196,40 +809,55 @@ SECURITY NOTE:
 }
 
 /**
- * Get USDC balance for a wallet address on Base chain
+ * Make a JSON-RPC call on the active network, trying each RPC endpoint in turn.
+ * Returns null if none of them gives a result.
  */
-async function getUsdcBalance(address: string): Promise<number | null> {
-  // balanceOf(address) function selector: 0x70a08231
-  const data = {
-    jsonrpc: "2.0",
-    method: "eth_call",
-    params: [{
-      to: USDC_ADDRESS,
-      data: `0x70a08231000000000000000000000000${address.slice(2)}`,
-    }, "latest"],
-    id: 1,
-  };
-
-  // Try each RPC endpoint with fallback
-  for (const rpcUrl of BASE_RPC_URLS) {
+async function rpcCall<T>(method: string, params: unknown[]): Promise<T | null> {
+  const rpcUrls = config.rpcUrls?.[network.id] ?? network.rpcUrls;
+  for (const [i, rpcUrl] of rpcUrls.entries()) {
+    let failure: string;
     try {
       const response = await fetch(rpcUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 }),
       });
-      const result = await response.json() as { result?: string };
+      const result = await response.json() as { result?: T; error?: { message?: string } };
       if (result.result) {
-        // USDC has 6 decimals
-        return parseInt(result.result, 16) / 1e6;
+        return result.result;
       }
-    } catch {
-      continue; // Try next RPC
+      failure = result.error?.message || `HTTP ${response.status} with no result`;
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
     }
+    // Try next RPC
+    logEvent(i < rpcUrls.length - 1 ? "warning" : "error", "rpc_failover", {
+      rpc: rpcUrl,
+      method,
+      error: failure,
+      next: rpcUrls[i + 1] ?? null,
+    });
   }
   return null;
 }
 
+/**
+ * Get USDC balance for a wallet address on the active network
+ */
+async function getUsdcBalance(address: string): Promise<number | null> {
+  // balanceOf(address) function selector: 0x70a08231
+  const result = await rpcCall<string>("eth_call", [{
+    to: network.usdc.address,
+    data: `0x70a08231000000000000000000000000${address.slice(2)}`,
+  }, "latest"]);
+  if (!result) return null;
+
+  // USDC has 6 decimals
+  const balance = parseInt(result, 16) / 1e6;
+  lastKnownBalance = { balance, checkedAt: new Date().toISOString() };
+  return balance;
+}
+
 /**
  * Check if a prompt requires real-time data (Twitter/X)
  */
@@ -246,309 +874,3944 @@ function isRealtimeQuery(prompt: string): boolean {
   return false;
 }
 
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const ToolDefaultsSchema = z.object({
+  max_tokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+}).strict();
+
+const ConfigSchema = z.object({
+  // Override built-in tiers or add custom blockrun_smart modes
+  tiers: z.record(
+    z.string().regex(/^[a-z][a-z0-9_-]*$/, "Tier names must be lowercase letters, digits, '-' or '_'")
+      .refine(name => name !== "auto", "'auto' is reserved for content-aware routing"),
+    z.array(z.string()).min(1, "A tier needs at least one model"),
+  ).optional(),
+  // Default max_tokens/temperature per tool, keyed by tool name (e.g. "blockrun_chat")
+  defaults: z.record(z.string(), ToolDefaultsSchema).optional(),
+  // Payment network: Base mainnet (default) or the Base Sepolia testnet
+  network: z.enum(["base", "base-sepolia"]).optional(),
+  // RPC endpoints for balance lookups, keyed by network and tried in order
+  rpcUrls: z.partialRecord(z.enum(["base", "base-sepolia"]), z.array(z.url()).min(1)).optional(),
+  // Ask the user before paying more than this (USD) for a single call
+  confirmAbove: z.number().nonnegative().optional(),
+  // Reuse responses to identical chat requests instead of paying again
+  cache: z.object({
+    enabled: z.boolean(),
+    ttlSeconds: z.number().int().positive().optional(),
+    maxSizeMb: z.number().positive().optional(),
+  }).strict().optional(),
+  // Retries and per-attempt timeout for model calls
+  calls: z.object({
+    retries: z.number().int().min(0).max(5).optional(),
+    timeoutSeconds: z.number().positive().optional(),
+  }).strict().optional(),
+}).strict();
+
+type BlockrunConfig = z.infer<typeof ConfigSchema>;
+
+// Active config (global file merged with the project override)
+let config: BlockrunConfig = {};
+
 /**
- * Record spending for budget tracking
+ * Read and validate one config file. Missing files are an empty config.
  */
-function recordSpending(cost: number): void {
-  sessionBudget.spent += cost;
-  sessionBudget.calls += 1;
+function readConfigFile(file: string): BlockrunConfig {
+  if (!fs.existsSync(file)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid config in ${file}:\n${z.prettifyError(result.error)}`);
+  }
+  return result.data;
 }
 
 /**
- * Check if within budget
+ * Load the global config with the project-local file layered on top
  */
-function checkBudget(): { allowed: boolean; remaining: number | null } {
-  if (sessionBudget.limit === null) {
-    return { allowed: true, remaining: null };
-  }
-  const remaining = sessionBudget.limit - sessionBudget.spent;
-  return { allowed: remaining > 0, remaining };
+function loadConfig(): BlockrunConfig {
+  const global = readConfigFile(GLOBAL_CONFIG_FILE);
+  const project = readConfigFile(PROJECT_CONFIG_FILE);
+  return {
+    tiers: { ...global.tiers, ...project.tiers },
+    defaults: { ...global.defaults, ...project.defaults },
+    network: project.network ?? global.network,
+    rpcUrls: { ...global.rpcUrls, ...project.rpcUrls },
+    confirmAbove: project.confirmAbove ?? global.confirmAbove,
+    cache: project.cache ?? global.cache,
+    calls: project.calls ?? global.calls,
+  };
 }
 
-// Create the server with modern McpServer class
-const server = new McpServer({
-  name: "blockrun-mcp",
-  version: "0.3.0",
-});
-
-// ============================================================================
-// TOOLS
-// ============================================================================
+/**
+ * Reload the config when either file changes. An invalid edit is logged
+ * and the previous config stays active.
+ */
+function watchConfig(): void {
+  for (const file of [GLOBAL_CONFIG_FILE, PROJECT_CONFIG_FILE]) {
+    fs.watchFile(file, { interval: 1000, persistent: false }, () => {
+      try {
+        const previousNetwork = config.network;
+        config = loadConfig();
+        console.error(`[BlockRun] Reloaded config (${file} changed)`);
+        if (config.network !== previousNetwork) {
+          console.error("[BlockRun] The network setting changed; restart the server to switch networks.");
+        }
+      } catch (err) {
+        console.error(`[BlockRun] ${err instanceof Error ? err.message : String(err)}\n[BlockRun] Keeping the previous config.`);
+      }
+    });
+  }
+}
+
+/**
+ * All routing tiers: built-in tiers with config overrides and custom tiers
+ */
+function getTiers(): Record<string, readonly string[]> {
+  return { ...MODEL_TIERS, ...config.tiers };
+}
+
+function getTier(name: string): readonly string[] | undefined {
+  return Object.hasOwn(getTiers(), name) ? getTiers()[name] : undefined;
+}
+
+/**
+ * Default max_tokens/temperature for a tool, from the config file
+ */
+function toolDefaults(tool: string): { maxTokens: number; temperature?: number } {
+  const defaults = config.defaults?.[tool];
+  return { maxTokens: defaults?.max_tokens ?? 1024, temperature: defaults?.temperature };
+}
+
+/**
+ * Error result for an unknown tier name
+ */
+function unknownTierError(name: string) {
+  return {
+    content: [{ type: "text" as const, text: `Error: Unknown tier '${name}'. Available: ${Object.keys(getTiers()).join(", ")}` }],
+    isError: true,
+  };
+}
+
+// ============================================================================
+// AUTO ROUTING
+// ============================================================================
+
+type PromptCategory = "realtime" | "long_context" | "code" | "reasoning" | "simple" | "general";
+
+// Tier used for each category that routes to a MODEL_TIERS entry
+const CATEGORY_TIERS: Record<"code" | "reasoning" | "simple" | "general", RoutingMode> = {
+  code: "balanced",
+  reasoning: "reasoning",
+  simple: "fast",
+  general: "balanced",
+};
+
+/**
+ * Classify a prompt with local heuristics. Returns the category and the
+ * signals that fired, so the rules can be tuned from real traffic.
+ * `tokens` is the size of the whole request, attachments included.
+ */
+function classifyPrompt(prompt: string, tokens = estimateTokens(prompt)): { category: PromptCategory; signals: string[] } {
+  const lower = prompt.toLowerCase();
+  const signals: string[] = [];
+
+  if (isRealtimeQuery(prompt)) {
+    return { category: "realtime", signals: ["realtime keyword or @handle"] };
+  }
+
+  if (tokens > LONG_CONTEXT_TOKENS) {
+    return { category: "long_context", signals: [`~${tokens} prompt tokens`] };
+  }
+
+  let code = 0;
+  if (prompt.includes("```")) { code += 2; signals.push("code fence"); }
+  if (/\b(function|const|let|var|def|class|import|return|public|private|async|await)\b/.test(prompt) && /[{};()=]/.test(prompt)) {
+    code += 1; signals.push("code syntax");
+  }
+  if (/\b(bug|stack trace|traceback|exception|compile|refactor|unit test|regex|typescript|javascript|python|rust|golang|sql)\b/.test(lower)) {
+    code += 1; signals.push("programming keyword");
+  }
+
+  let reasoning = 0;
+  if (/\d+\s*[-+*/^=]\s*\d+/.test(prompt) || /[∫∑√≤≥≠]/.test(prompt)) { reasoning += 1; signals.push("math expression"); }
+  if (/\b(prove|proof|theorem|equation|integral|derivative|probability|calculate|solve|step by step|logic puzzle|optimi[sz]e)\b/.test(lower)) {
+    reasoning += 2; signals.push("reasoning keyword");
+  }
+
+  if (code > 0 || reasoning > 0) {
+    return { category: code >= reasoning ? "code" : "reasoning", signals };
+  }
+
+  const words = prompt.trim().split(/\s+/).length;
+  if (words <= 20 && !prompt.includes("\n")) {
+    signals.push(`short prompt (${words} words)`);
+    return { category: "simple", signals };
+  }
+
+  return { category: "general", signals };
+}
+
+/**
+ * Routing decision for "auto" mode, returned in blockrun_smart's structured output
+ */
+interface AutoRoute {
+  category: PromptCategory;
+  signals: string[];
+  tier: string;
+  models: string[];   // Candidates to try, in order
+  search: boolean;    // Use Grok live search
+  reason: string;
+  skipped: Array<{ model: string; reason: string }>;
+}
+
+/**
+ * Worst-case cost of each candidate from live pricing, or null if the
+ * catalog is unavailable. Models without pricing are left out.
+ */
+async function priceCandidates(models: string[], prompt: string, maxTokens: number): Promise<Map<string, number> | null> {
+  const costs = new Map<string, number>();
+  try {
+    for (const model of models) {
+      const estimate = await priceChat(model, prompt, maxTokens);
+      if (estimate) costs.set(model, estimate.maxCost);
+    }
+  } catch {
+    return null;
+  }
+  return costs;
+}
+
+/**
+ * Candidates whose worst-case cost fits the remaining budget. The rest are
+ * recorded in skipped. Unpriced models are kept.
+ */
+function filterAffordable(
+  models: string[],
+  costs: Map<string, number> | null,
+  remaining: number | null,
+  skipped: AutoRoute["skipped"],
+): string[] {
+  if (remaining === null || costs === null) return models;
+  return models.filter(model => {
+    const cost = costs.get(model);
+    if (cost !== undefined && cost > remaining) {
+      skipped.push({ model, reason: `max cost $${cost.toFixed(4)} exceeds remaining budget $${remaining.toFixed(4)}` });
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Pick models for a prompt: classify it, map it to a tier, then drop
+ * candidates the remaining budget can't cover and try the rest cheapest first.
+ * Only the question is classified; `message` (with any attachments inlined)
+ * is what gets sized and priced.
+ */
+async function planAutoRoute(question: string, message: string, system: string | undefined, maxTokens: number): Promise<AutoRoute> {
+  const prompt = `${system || ""}${message}`;
+  const { category, signals } = classifyPrompt(`${system || ""}${question}`, estimateTokens(prompt));
+
+  let tier: string;
+  let candidates: string[];
+  if (category === "realtime") {
+    tier = "search";
+    candidates = [REALTIME_MODEL];
+  } else if (category === "long_context") {
+    tier = "long_context";
+    const needed = estimateTokens(prompt) + maxTokens;
+    const windows = await Promise.all(LONG_CONTEXT_MODELS.map(getContextWindow));
+    candidates = LONG_CONTEXT_MODELS.filter((_, i) => windows[i] >= needed);
+    if (candidates.length === 0) candidates = [...LONG_CONTEXT_MODELS];
+  } else {
+    tier = CATEGORY_TIERS[category];
+    candidates = [...getTier(CATEGORY_TIERS[category])!];
+  }
+
+  const skipped: AutoRoute["skipped"] = [];
+  const reasons = [`classified as ${category}${signals.length ? ` (${signals.join(", ")})` : ""} → ${tier}`];
+  const { remaining } = checkBudget();
+
+  let costs = await priceCandidates(candidates, prompt, maxTokens);
+  if (costs === null) reasons.push("pricing unavailable, kept tier order");
+  let affordable = filterAffordable(candidates, costs, remaining, skipped);
+
+  if (affordable.length === 0 && tier !== "cheap" && category !== "realtime") {
+    // Nothing in the tier fits - fall back to whatever the cheap tier can cover
+    tier = "cheap";
+    candidates = [...getTier("cheap")!];
+    costs = await priceCandidates(candidates, prompt, maxTokens);
+    affordable = filterAffordable(candidates, costs, remaining, skipped);
+    reasons.push(affordable.length
+      ? "no candidate fits the remaining budget, falling back to cheap tier"
+      : "no candidate fits the remaining budget, not even in the cheap tier");
+  }
+  candidates = affordable.length ? affordable : candidates;
+
+  if (costs && costs.size > 0 && candidates.length > 1) {
+    // Unpriced models keep their tier order after the priced ones
+    candidates.sort((a, b) => (costs.get(a) ?? Infinity) - (costs.get(b) ?? Infinity));
+    reasons.push("trying cheapest model first");
+  }
+
+  return {
+    category,
+    signals,
+    tier,
+    models: candidates,
+    search: category === "realtime",
+    reason: reasons.join("; "),
+    skipped,
+  };
+}
+
+/**
+ * Get the budget for the current request: the HTTP client's own budget,
+ * or the process-wide session budget in stdio mode
+ */
+function currentBudget(): BudgetState {
+  return clientScope.getStore()?.budget ?? sessionBudget;
+}
+
+/**
+ * Record spending for budget tracking
+ */
+function recordSpending(cost: number, budget: BudgetState = currentBudget()): void {
+  budget.spent += cost;
+  budget.calls += 1;
+}
+
+/**
+ * Check if within budget
+ */
+function checkBudget(budget: BudgetState = currentBudget()): { allowed: boolean; remaining: number | null } {
+  if (budget.limit === null) {
+    return { allowed: true, remaining: null };
+  }
+  const remaining = budget.limit - budget.spent - budget.reserved;
+  return { allowed: remaining > 0, remaining };
+}
+
+// ============================================================================
+// METRICS & LOGGING
+// ============================================================================
+
+const LATENCY_SAMPLES = 1000;     // Most recent latencies kept per model/tool for percentiles
+const BUDGET_WARNING_RATIO = 0.8; // Warn once spending crosses this share of the limit
+
+// Upstream calls for one model or tool since the server started
+interface CallStats {
+  calls: number;
+  errors: number;
+  totalMs: number;
+  latencies: number[];  // Ring buffer of the last LATENCY_SAMPLES durations
+}
+
+const callStats = {
+  startedAt: new Date(),
+  byModel: new Map<string, CallStats>(),
+  byTool: new Map<string, CallStats>(),
+};
+
+/**
+ * Record one upstream call against its model and the tool that made it
+ */
+function recordCall(tool: string, model: string, durationMs: number, ok: boolean): void {
+  for (const [stats, key] of [[callStats.byModel, model], [callStats.byTool, tool]] as const) {
+    const entry = stats.get(key) ?? { calls: 0, errors: 0, totalMs: 0, latencies: [] };
+    if (entry.latencies.length >= LATENCY_SAMPLES) {
+      entry.latencies[entry.calls % LATENCY_SAMPLES] = durationMs;
+    } else {
+      entry.latencies.push(durationMs);
+    }
+    entry.calls++;
+    if (!ok) entry.errors++;
+    entry.totalMs += durationMs;
+    stats.set(key, entry);
+  }
+}
+
+/**
+ * Nearest-rank percentile of a list of durations
+ */
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(Math.ceil(p * sorted.length) - 1, sorted.length - 1)];
+}
+
+function summarizeCalls(entry: CallStats) {
+  return {
+    calls: entry.calls,
+    errors: entry.errors,
+    p50Ms: percentile(entry.latencies, 0.5),
+    p95Ms: percentile(entry.latencies, 0.95),
+  };
+}
+
+/**
+ * Call counts, errors and latency percentiles, as served by blockrun://stats
+ */
+function buildStatsReport() {
+  const group = (stats: Map<string, CallStats>) =>
+    Object.fromEntries([...stats].sort(([a], [b]) => a.localeCompare(b)).map(([key, entry]) => [key, summarizeCalls(entry)]));
+  const all = [...callStats.byModel.values()];
+  return {
+    since: callStats.startedAt.toISOString(),
+    uptimeSeconds: Math.round((Date.now() - callStats.startedAt.getTime()) / 1000),
+    total: {
+      calls: all.reduce((sum, e) => sum + e.calls, 0),
+      errors: all.reduce((sum, e) => sum + e.errors, 0),
+      p50Ms: percentile(all.flatMap(e => e.latencies), 0.5),
+      p95Ms: percentile(all.flatMap(e => e.latencies), 0.95),
+    },
+    byModel: group(callStats.byModel),
+    byTool: group(callStats.byTool),
+  };
+}
+
+/**
+ * Render the call stats in the OpenMetrics text format
+ */
+function formatOpenMetrics(): string {
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  const lines: string[] = [];
+
+  for (const [label, stats] of [["model", callStats.byModel], ["tool", callStats.byTool]] as const) {
+    const name = `blockrun_${label}`;
+    const samples = [...stats].map(([key, entry]) => ({ labels: `${label}="${escape(key)}"`, entry }));
+
+    lines.push(`# TYPE ${name}_calls counter`, `# HELP ${name}_calls Upstream calls by ${label}.`);
+    for (const { labels, entry } of samples) lines.push(`${name}_calls_total{${labels}} ${entry.calls}`);
+
+    lines.push(`# TYPE ${name}_errors counter`, `# HELP ${name}_errors Failed upstream calls by ${label}.`);
+    for (const { labels, entry } of samples) lines.push(`${name}_errors_total{${labels}} ${entry.errors}`);
+
+    lines.push(`# TYPE ${name}_latency_seconds summary`, `# UNIT ${name}_latency_seconds seconds`,
+      `# HELP ${name}_latency_seconds Upstream call latency by ${label} (last ${LATENCY_SAMPLES} calls).`);
+    for (const { labels, entry } of samples) {
+      for (const q of [0.5, 0.95]) {
+        lines.push(`${name}_latency_seconds{${labels},quantile="${q}"} ${(percentile(entry.latencies, q) ?? 0) / 1000}`);
+      }
+      lines.push(`${name}_latency_seconds_sum{${labels}} ${entry.totalMs / 1000}`);
+      lines.push(`${name}_latency_seconds_count{${labels}} ${entry.calls}`);
+    }
+  }
+
+  lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
+// Connected servers that receive log notifications, with the HTTP client that owns each
+const logTargets = new Set<{ server: McpServer; client?: HttpClient }>();
+
+/**
+ * Send an event to the client as an MCP log notification. Only sessions of the
+ * client that caused it get it (every session over stdio); the SDK drops events
+ * below the level the client set with logging/setLevel.
+ */
+function logEvent(level: LoggingLevel, event: string, data: Record<string, unknown>): void {
+  const client = clientScope.getStore();
+  for (const target of logTargets) {
+    if (target.client !== client) continue;
+    target.server.server
+      .sendLoggingMessage({ level, logger: "blockrun", data: { event, ...data } }, target.server.server.transport?.sessionId)
+      .catch(() => { /* Not connected or no stream open */ });
+  }
+}
+
+// ============================================================================
+// SPEND ACCOUNTING
+// ============================================================================
+
+/**
+ * Thrown when a paid call would take the session over its budget limit
+ */
+class BudgetExceededError extends Error {
+  constructor(cost: number, remaining: number, limit: number, readonly isCap = false) {
+    super(
+      `Budget limit would be exceeded: this call costs ~$${cost.toFixed(4)} but only ` +
+      `$${Math.max(remaining, 0).toFixed(4)} of the $${limit.toFixed(4)} ${isCap ? "cost cap" : "session limit"} remains.` +
+      (isCap ? "" : `\n\nUse blockrun_budget to check or adjust your budget.`)
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Budget held for a paid call while it is in flight
+ */
+interface SpendReservation {
+  tool: string;
+  model: string;
+  amount: number;
+  budget: BudgetState;  // Budget the reservation is held against
+  cap?: BudgetState;    // Extra limit for this call only (e.g. a batch's cost cap)
+  profile: string;      // Profile whose ledger records the payment
+}
+
+/**
+ * Reserve an estimated cost against the session budget (and cap, if any), or refuse the call
+ */
+function reserveSpending(tool: string, model: string, amount: number, cap?: BudgetState): SpendReservation {
+  const budget = currentBudget();
+  for (const limit of [budget, cap]) {
+    if (!limit) continue;
+    const { allowed, remaining } = checkBudget(limit);
+    if (remaining !== null && (!allowed || amount > remaining)) {
+      throw new BudgetExceededError(amount, remaining, limit.limit!, limit === cap);
+    }
+  }
+  budget.reserved += amount;
+  if (cap) cap.reserved += amount;
+  return { tool, model, amount, budget, cap, profile: activeProfile };
+}
+
+/**
+ * Replace a reservation's estimate with the amount actually requested by x402
+ */
+function adjustReservation(reservation: SpendReservation, amount: number): void {
+  const { budget, cap } = reservation;
+  const extra = amount - reservation.amount;
+  for (const limit of [budget, cap]) {
+    if (!limit) continue;
+    const { remaining } = checkBudget(limit);
+    if (extra > 0 && remaining !== null && extra > remaining) {
+      throw new BudgetExceededError(amount, remaining + reservation.amount, limit.limit!, limit === cap);
+    }
+  }
+  budget.reserved += extra;
+  if (cap) cap.reserved += extra;
+  reservation.amount = amount;
+}
+
+/**
+ * Drop a reservation without charging it (call failed before payment)
+ */
+function releaseSpending(reservation: SpendReservation): void {
+  for (const limit of [reservation.budget, reservation.cap]) {
+    if (limit) limit.reserved = Math.max(limit.reserved - reservation.amount, 0);
+  }
+}
+
+/**
+ * Settle a reservation against the actual amount paid
+ */
+function settleSpending(reservation: SpendReservation, cost: number): void {
+  const { budget } = reservation;
+  const before = budget.spent;
+  releaseSpending(reservation);
+  recordSpending(cost, budget);
+  if (reservation.cap) recordSpending(cost, reservation.cap);
+
+  if (budget.limit !== null && before < budget.limit * BUDGET_WARNING_RATIO && budget.spent >= budget.limit * BUDGET_WARNING_RATIO) {
+    logEvent("warning", "budget_warning", {
+      profile: reservation.profile,
+      spent: budget.spent,
+      limit: budget.limit,
+      remaining: Math.max(budget.limit - budget.spent, 0),
+    });
+  }
+}
+
+/**
+ * Thrown when a payment above the confirmation threshold isn't approved
+ */
+class SpendDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpendDeclinedError";
+  }
+}
+
+/**
+ * A payment waiting for the user's approval
+ */
+interface SpendConfirmation {
+  tool: string;
+  model: string;
+  cost: number;
+  remaining: number | null;  // Budget left after this payment (null = unlimited)
+  threshold: number;
+}
+
+// Asks the user to approve a payment; throws SpendDeclinedError if they don't
+type SpendConfirmer = (request: SpendConfirmation) => Promise<void>;
+
+// The current tool call's confirmer, if it can ask the user
+const confirmScope = new AsyncLocalStorage<SpendConfirmer>();
+
+/**
+ * Require approval for a payment above the configured confirmAbove threshold.
+ * Calls that can't ask the user are refused rather than paid silently.
+ */
+async function confirmSpending(reservation: SpendReservation, cost: number): Promise<void> {
+  const threshold = config.confirmAbove;
+  if (threshold === undefined || cost <= threshold) return;
+
+  const confirm = confirmScope.getStore();
+  if (!confirm) {
+    throw new SpendDeclinedError(
+      `${reservation.model} would cost $${cost.toFixed(4)}, above the $${threshold.toFixed(2)} confirmation threshold, ` +
+      `and this call can't ask for approval.`
+    );
+  }
+  await confirm({
+    tool: reservation.tool,
+    model: reservation.model,
+    cost,
+    remaining: checkBudget(reservation.budget).remaining,
+    threshold,
+  });
+}
+
+/**
+ * Rough token count for pricing (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated cost range of a chat call
+ */
+interface CostEstimate {
+  inputTokens: number;
+  maxOutputTokens: number;
+  minCost: number;  // Input only (empty response)
+  maxCost: number;  // Input plus max_tokens of output
+}
+
+/**
+ * Price a chat call from catalog pricing, or null if the model isn't priced
+ */
+async function priceChat(model: string, prompt: string, maxTokens: number): Promise<CostEstimate | null> {
+  const info = (await getModels()).find(m => m.id === model);
+  if (info?.inputPrice === undefined || info?.outputPrice === undefined) {
+    return null;
+  }
+  const inputTokens = estimateTokens(prompt);
+  const minCost = inputTokens * info.inputPrice / 1e6;
+  return {
+    inputTokens,
+    maxOutputTokens: maxTokens,
+    minCost,
+    maxCost: minCost + maxTokens * info.outputPrice / 1e6,
+  };
+}
+
+/**
+ * Estimate the worst-case cost of a chat call from catalog pricing
+ */
+async function estimateChatCost(model: string, prompt: string, maxTokens: number): Promise<number> {
+  try {
+    const estimate = await priceChat(model, prompt, maxTokens);
+    if (estimate) return estimate.maxCost;
+  } catch {
+    // Catalog unavailable - fall back to a flat estimate
+  }
+  return DEFAULT_CALL_ESTIMATE;
+}
+
+/**
+ * Estimate the cost of embedding texts (input tokens only) from catalog pricing
+ */
+async function estimateEmbeddingCost(model: string, texts: string[]): Promise<number> {
+  try {
+    const info = (await getModels()).find(m => m.id === model);
+    if (info?.inputPrice !== undefined) {
+      return estimateTokens(texts.join("\n")) * info.inputPrice / 1e6;
+    }
+  } catch {
+    // Catalog unavailable - fall back to a flat estimate
+  }
+  return DEFAULT_CALL_ESTIMATE;
+}
+
+// ============================================================================
+// SPENDING LEDGER
+// ============================================================================
+
+/**
+ * One paid call, as recorded in the ledger
+ */
+interface LedgerEntry {
+  timestamp: string;          // ISO 8601
+  client?: string;            // HTTP mode: name of the token that made the call
+  tool: string;
+  model: string;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  cost: number;               // USD
+  paymentRef: string | null;  // Settlement tx hash, or authorization nonce
+  network?: NetworkId;        // Absent on entries from before network selection (Base)
+  payTo?: string;             // Address the payment went to
+}
+
+interface SpendingGroup {
+  key: string;
+  cost: number;
+  calls: number;
+}
+
+interface SpendingReport {
+  from: string | null;
+  to: string | null;
+  total: number;
+  calls: number;
+  byDay: SpendingGroup[];
+  byModel: SpendingGroup[];
+  byTool: SpendingGroup[];
+}
+
+/**
+ * Append an entry to the ledger. Failures are logged, never thrown -
+ * the call has already been paid for.
+ */
+function appendLedger(entry: LedgerEntry, profile = activeProfile): void {
+  try {
+    const file = ledgerFile(profile);
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+    fs.appendFileSync(file, JSON.stringify(entry) + "\n", { mode: 0o600 });
+  } catch (err) {
+    console.error(`[BlockRun] Warning: Could not write to ledger: ${err}`);
+  }
+}
+
+/**
+ * Read the active profile's ledger entries, optionally limited to a time range (inclusive).
+ * In HTTP mode, only the calling token's entries are returned.
+ */
+function readLedger(from?: Date, to?: Date): LedgerEntry[] {
+  const file = ledgerFile();
+  if (!fs.existsSync(file)) return [];
+  const client = clientScope.getStore()?.name;
+
+  const entries: LedgerEntry[] = [];
+  for (const line of fs.readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LedgerEntry;
+      const time = new Date(entry.timestamp);
+      if (from && time < from) continue;
+      if (to && time > to) continue;
+      if (client !== undefined && entry.client !== client) continue;
+      entries.push(entry);
+    } catch {
+      continue; // Skip partially written lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Sum entries by key, most expensive first
+ */
+function groupSpending(entries: LedgerEntry[], keyOf: (e: LedgerEntry) => string): SpendingGroup[] {
+  const groups = new Map<string, SpendingGroup>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const group = groups.get(key) || { key, cost: 0, calls: 0 };
+    group.cost += entry.cost;
+    group.calls += 1;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Build a spending report grouped by day, model and tool
+ */
+function buildSpendingReport(entries: LedgerEntry[], from?: Date, to?: Date): SpendingReport {
+  return {
+    from: from?.toISOString() ?? entries[0]?.timestamp ?? null,
+    to: to?.toISOString() ?? entries[entries.length - 1]?.timestamp ?? null,
+    total: entries.reduce((sum, e) => sum + e.cost, 0),
+    calls: entries.length,
+    byDay: groupSpending(entries, e => e.timestamp.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byModel: groupSpending(entries, e => e.model),
+    byTool: groupSpending(entries, e => e.tool),
+  };
+}
+
+/**
+ * Format a spending report as text
+ */
+function formatSpendingReport(report: SpendingReport): string {
+  const section = (title: string, groups: SpendingGroup[]) =>
+    `${title}:\n` + (groups.length
+      ? groups.map(g => `  ${g.key}: $${g.cost.toFixed(4)} (${g.calls} call${g.calls === 1 ? "" : "s"})`).join("\n")
+      : "  (none)");
+
+  return `BlockRun Spending Report
+========================
+
+Period: ${report.from?.slice(0, 10) ?? "-"} to ${report.to?.slice(0, 10) ?? "-"}
+Total: $${report.total.toFixed(4)}
+Calls: ${report.calls}
+
+${section("By day", report.byDay)}
+
+${section("By model", report.byModel)}
+
+${section("By tool", report.byTool)}`;
+}
+
+/**
+ * Export ledger entries as CSV
+ */
+function ledgerToCsv(entries: LedgerEntry[]): string {
+  const escape = (value: string | number | null) => {
+    const str = value === null ? "" : String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const header = "timestamp,client,network,tool,model,input_tokens,output_tokens,cost_usd,payment_ref";
+  const rows = entries.map(e => [
+    e.timestamp, e.client ?? null, e.network ?? "base", e.tool, e.model, e.inputTokens, e.outputTokens, e.cost.toFixed(6), e.paymentRef,
+  ].map(escape).join(","));
+  return [header, ...rows].join("\n");
+}
+
+// ============================================================================
+// RETRIES & CIRCUIT BREAKER
+// ============================================================================
+
+const CALL_RETRIES = 2;                   // Extra attempts after a rate-limited or transient failure
+const CALL_TIMEOUT_MS = 120 * 1000;       // Per attempt, until the response headers arrive
+const RETRY_BASE_DELAY_MS = 500;          // Doubled per attempt, with jitter
+const RATE_LIMIT_BASE_DELAY_MS = 2000;    // Used when a 429 doesn't say how long to wait
+const CIRCUIT_FAILURE_THRESHOLD = 3;      // Consecutive failed calls before a model is skipped
+const CIRCUIT_COOLDOWN_MS = 60 * 1000;    // How long a model is skipped for
+
+/**
+ * An HTTP error from the BlockRun API
+ */
+class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Thrown when a payment can't be made or is refused by the server
+ */
+class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+/**
+ * Thrown when a call failed after its signed payment was sent, so the server may
+ * have settled it. Never retried: a retry would sign a second payment.
+ */
+class PaidResponseError extends Error {
+  constructor(cause: unknown) {
+    super(`The call may have been paid for, but its response was lost: ${cause instanceof Error ? cause.message : String(cause)}. ` +
+      "It is recorded in the ledger and was not retried.");
+    this.name = "PaidResponseError";
+  }
+}
+
+/**
+ * Thrown when a single attempt takes longer than the call timeout
+ */
+class CallTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`${model} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "CallTimeoutError";
+  }
+}
+
+/**
+ * Thrown instead of calling a model whose circuit is open
+ */
+class CircuitOpenError extends Error {
+  constructor(model: string, retryInMs: number) {
+    super(`${model} is temporarily skipped after ${CIRCUIT_FAILURE_THRESHOLD} failed calls in a row; it will be tried again in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * How a failed call should be handled:
+ * - payment: wallet, budget or approval problem - no other model will fare better
+ * - rate_limit: retry after a pause
+ * - transient: timeout, network or server error - retry, then try another model
+ * - bad_request: the request or model is at fault (or the call was already paid for) -
+ *   try another model, don't retry
+ */
+type ErrorKind = "payment" | "rate_limit" | "transient" | "bad_request";
+
+function classifyError(error: unknown): ErrorKind {
+  if (error instanceof BudgetExceededError || error instanceof SpendDeclinedError || error instanceof PaymentError) {
+    return "payment";
+  }
+  if (error instanceof ApiError) {
+    if (error.status === 402) return "payment";
+    if (error.status === 429) return "rate_limit";
+    if (error.status === 408 || error.status >= 500) return "transient";
+    return "bad_request";
+  }
+  // fetch() reports network failures (DNS, reset connections) as TypeError
+  if (error instanceof CallTimeoutError || error instanceof TypeError) {
+    return "transient";
+  }
+  return "bad_request";
+}
+
+// Consecutive failures per model, and when a tripped model may be tried again
+const circuits = new Map<string, { failures: number; openUntil: number }>();
+
+/**
+ * Milliseconds until a model may be called again, or 0 if its circuit is closed
+ */
+function circuitOpenFor(model: string): number {
+  const circuit = circuits.get(model);
+  return circuit ? Math.max(circuit.openUntil - Date.now(), 0) : 0;
+}
+
+function recordCallSuccess(model: string): void {
+  circuits.delete(model);
+}
+
+function recordCallFailure(model: string): void {
+  const circuit = circuits.get(model) ?? { failures: 0, openUntil: 0 };
+  circuit.failures++;
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    // Half-open: after the cooldown, one more failure trips it again
+    circuit.failures = CIRCUIT_FAILURE_THRESHOLD - 1;
+  }
+  circuits.set(model, circuit);
+}
+
+/**
+ * Wait before a retry, waking early if the call is cancelled
+ */
+function retryDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * An attempt's timeout, controlled by the call: paused while the user is asked to
+ * approve a payment, and stopped once the response headers arrive so long
+ * streamed answers aren't cut off
+ */
+interface AttemptTimeout {
+  pause(): void;
+  resume(): void;
+  stop(): void;
+}
+
+/**
+ * Call a model with a per-attempt timeout, retrying rate-limited and transient
+ * failures with jittered exponential backoff. Payment and bad-request errors
+ * are thrown straight away. Failures that survive the retries count towards
+ * the model's circuit breaker.
+ */
+async function callWithRetry<T>(
+  model: string,
+  signal: AbortSignal | undefined,
+  call: (signal: AbortSignal, timeout: AttemptTimeout) => Promise<T>,
+): Promise<T> {
+  const openFor = circuitOpenFor(model);
+  if (openFor > 0) {
+    throw new CircuitOpenError(model, openFor);
+  }
+
+  const retries = config.calls?.retries ?? CALL_RETRIES;
+  const timeoutMs = (config.calls?.timeoutSeconds ?? CALL_TIMEOUT_MS / 1000) * 1000;
+
+  for (let attempt = 0; ; attempt++) {
+    // One controller per attempt, aborted by the caller's signal or the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    let remaining = timeoutMs;
+    let runningSince = 0;
+    const timeout: AttemptTimeout = {
+      resume: () => {
+        if (timer !== undefined || remaining <= 0) return;
+        runningSince = Date.now();
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, remaining);
+      },
+      pause: () => {
+        if (timer === undefined) return;
+        clearTimeout(timer);
+        timer = undefined;
+        remaining -= Date.now() - runningSince;
+      },
+      stop: () => {
+        timeout.pause();
+        remaining = 0;
+      },
+    };
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (signal?.aborted) onAbort();
+    timeout.resume();
+
+    try {
+      const result = await call(controller.signal, timeout);
+      recordCallSuccess(model);
+      return result;
+    } catch (caught) {
+      if (signal?.aborted) throw caught;
+      const error = timedOut && !(caught instanceof PaidResponseError) ? new CallTimeoutError(model, timeoutMs) : caught;
+      const kind = classifyError(error);
+      if (kind === "payment" || kind === "bad_request") {
+        throw error;
+      }
+      if (attempt >= retries) {
+        recordCallFailure(model);
+        throw error;
+      }
+
+      const base = kind === "rate_limit" ? RATE_LIMIT_BASE_DELAY_MS : RETRY_BASE_DELAY_MS;
+      const backoff = base * 2 ** attempt * (0.5 + Math.random());
+      const serverDelay = error instanceof ApiError ? error.retryAfterMs : undefined;
+      await retryDelay(serverDelay ?? backoff, signal);
+    } finally {
+      timeout.stop();
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+/**
+ * A model that failed before another one answered
+ */
+interface FallbackFailure {
+  model: string;
+  error: string;
+}
+
+/**
+ * Try models in order until one answers. Models with an open circuit are skipped;
+ * payment errors and cancellation stop the whole chain since no other model would
+ * get further. With a single model its own error is thrown unchanged.
+ */
+async function callWithFallbacks<T>(
+  models: readonly string[],
+  signal: AbortSignal | undefined,
+  call: (model: string) => Promise<T>,
+): Promise<{ model: string; result: T; failures: FallbackFailure[] }> {
+  const failures: FallbackFailure[] = [];
+  let lastError: unknown;
+
+  for (const [i, model] of models.entries()) {
+    // Keep the last candidate even if tripped, so there is always something to try
+    if (circuitOpenFor(model) > 0 && i < models.length - 1) {
+      failures.push({ model, error: "skipped after repeated failures" });
+      continue;
+    }
+    try {
+      return { model, result: await call(model), failures };
+    } catch (error) {
+      if (signal?.aborted || classifyError(error) === "payment") {
+        throw error;
+      }
+      lastError = error;
+      failures.push({ model, error: error instanceof Error ? error.message : String(error) });
+      if (i < models.length - 1) {
+        logEvent("warning", "fallback", { from: model, to: models[i + 1], error: failures[failures.length - 1].error });
+      }
+    }
+  }
+
+  if (models.length === 1) throw lastError;
+  throw new Error(`All models failed:\n${failures.map(f => `- ${f.model}: ${f.error}`).join("\n")}`);
+}
+
+/**
+ * Note appended to a reply that came from a fallback model
+ */
+function fallbackNote(model: string, failures: FallbackFailure[]): string {
+  return failures.length > 0
+    ? `\n\n[Answered by ${model}; ${failures.map(f => f.model).join(", ")} failed]`
+    : "";
+}
+
+// ============================================================================
+// X402 PAYMENTS
+// ============================================================================
+
+// EIP-3009 transferWithAuthorization, signed locally for each x402 payment
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+interface PaymentOption {
+  scheme: string;
+  network: string;
+  amount?: string;
+  maxAmountRequired?: string;
+  asset?: string;
+  payTo: `0x${string}`;
+  maxTimeoutSeconds?: number;
+  extra?: Record<string, unknown>;
+}
+
+interface PaymentRequired {
+  accepts: PaymentOption[];
+  resource?: { url?: string; description?: string };
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Result of a paid API request
+ */
+interface PaidResult<T> {
+  data: T;
+  cost: number;               // USD actually paid
+  paymentRef: string | null;  // Settlement tx hash, or authorization nonce
+}
+
+/**
+ * Read x402 payment requirements from a 402 response (header or body)
+ */
+async function readPaymentRequired(response: Response): Promise<PaymentRequired> {
+  let parsed: PaymentRequired | null = null;
+  const header = response.headers.get("payment-required");
+  try {
+    parsed = header
+      ? JSON.parse(Buffer.from(header, "base64").toString("utf-8"))
+      : await response.json() as PaymentRequired;
+  } catch {
+    // Fall through to the error below
+  }
+  if (!parsed?.accepts?.length) {
+    throw new Error("Payment required (402) but no payment requirements found");
+  }
+  return parsed;
+}
+
+/**
+ * Sign an x402 payment for the given requirements
+ */
+async function createPaymentHeader(requirements: PaymentRequired, option: PaymentOption, amount: string, resourceUrl: string): Promise<{ header: string; nonce: string }> {
+  const privateKey = getWalletKey();
+  const from = privateKeyToAccount(privateKey).address;
+  const now = Math.floor(Date.now() / 1000);
+  const validAfter = now - 600;
+  const validBefore = now + (option.maxTimeoutSeconds || 300);
+  const nonce = `0x${crypto.randomBytes(32).toString("hex")}` as `0x${string}`;
+
+  // The server may name the token's EIP-712 domain; otherwise use the network's USDC
+  const domain = {
+    name: typeof option.extra?.name === "string" ? option.extra.name : network.usdc.name,
+    version: typeof option.extra?.version === "string" ? option.extra.version : network.usdc.version,
+  };
+
+  const signature = await signTypedData({
+    privateKey,
+    domain: {
+      ...domain,
+      chainId: network.chainId,
+      verifyingContract: network.usdc.address,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: "TransferWithAuthorization",
+    message: {
+      from,
+      to: option.payTo,
+      value: BigInt(amount),
+      validAfter: BigInt(validAfter),
+      validBefore: BigInt(validBefore),
+      nonce,
+    },
+  });
+
+  const payload = {
+    x402Version: 2,
+    resource: {
+      url: requirements.resource?.url || resourceUrl,
+      description: requirements.resource?.description || "BlockRun AI API call",
+      mimeType: "application/json",
+    },
+    accepted: {
+      scheme: "exact",
+      network: network.caip2,
+      amount,
+      asset: network.usdc.address,
+      payTo: option.payTo,
+      maxTimeoutSeconds: option.maxTimeoutSeconds || 300,
+      extra: domain,
+    },
+    payload: {
+      signature,
+      authorization: {
+        from,
+        to: option.payTo,
+        value: amount,
+        validAfter: validAfter.toString(),
+        validBefore: validBefore.toString(),
+        nonce,
+      },
+    },
+    extensions: requirements.extensions || {},
+  };
+
+  return { header: Buffer.from(JSON.stringify(payload)).toString("base64"), nonce };
+}
+
+/**
+ * Read the settlement transaction hash from a paid response, if present
+ */
+function readPaymentResponse(response: Response): string | null {
+  const header = response.headers.get("payment-response") || response.headers.get("x-payment-response");
+  if (!header) return null;
+  try {
+    const settlement = JSON.parse(Buffer.from(header, "base64").toString("utf-8")) as { transaction?: string };
+    return settlement.transaction || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an API error message from a failed response
+ */
+async function readApiError(response: Response, prefix: string): Promise<ApiError> {
+  let detail = "";
+  try {
+    const body = await response.json() as { error?: string | { message?: string } };
+    detail = typeof body.error === "string" ? body.error : body.error?.message || "";
+  } catch {
+    // No JSON body
+  }
+  const retryAfter = Number(response.headers.get("retry-after"));
+  return new ApiError(
+    `${prefix}: ${response.status}${detail ? ` - ${detail}` : ""}`,
+    response.status,
+    retryAfter > 0 ? retryAfter * 1000 : undefined,
+  );
+}
+
+/**
+ * Options for a paid API request
+ */
+interface PaidRequestOptions<T> {
+  signal?: AbortSignal;                           // Aborts the upstream call
+  readBody?: (response: Response) => Promise<T>;  // Defaults to response.json()
+  cap?: BudgetState;                              // Cost cap on top of the session budget
+  timeout?: AttemptTimeout;                       // Paused for approval, stopped at the response headers
+}
+
+/**
+ * POST to a BlockRun endpoint with x402 payment, enforcing the session budget.
+ *
+ * Every paid tool goes through here: the estimate is reserved before the call,
+ * re-checked against the exact amount the server asks for before signing,
+ * and settled against the amount actually paid.
+ */
+async function paidRequest<T>(
+  endpoint: string,
+  body: Record<string, unknown>,
+  spend: { tool: string; model: string; estimate: number },
+  options: PaidRequestOptions<T> = {},
+): Promise<PaidResult<T>> {
+  const url = `${network.apiUrl}${endpoint}`;
+  const reservation = reserveSpending(spend.tool, spend.model, spend.estimate, options.cap);
+  const started = Date.now();
+  let cost = 0;
+  let paymentRef: string | null = null;
+  let payTo: string | undefined;
+  let paymentSent = false;  // From here the server may settle the payment
+
+  const settle = (usage?: Partial<ChatUsage>) => {
+    settleSpending(reservation, cost);
+    appendLedger({
+      timestamp: new Date().toISOString(),
+      client: clientScope.getStore()?.name,
+      tool: spend.tool,
+      model: spend.model,
+      inputTokens: usage?.prompt_tokens ?? null,
+      outputTokens: usage?.completion_tokens ?? null,
+      cost,
+      paymentRef,
+      network: network.id,
+      payTo,
+    }, reservation.profile);
+  };
+
+  try {
+    const init = {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    };
+    let response = await fetch(url, init);
+
+    if (response.status === 402) {
+      const requirements = await readPaymentRequired(response);
+      const option = requirements.accepts.find(o => o.network === network.caip2);
+      if (!option) {
+        throw new PaymentError(`BlockRun didn't offer payment on ${network.name} (offered: ${requirements.accepts.map(o => o.network).join(", ")})`);
+      }
+      const amount = option.amount || option.maxAmountRequired;
+      if (!amount) {
+        throw new PaymentError("Payment required (402) but no amount was specified");
+      }
+      cost = Number(amount) / 1e6; // USDC has 6 decimals
+
+      // Refuse before signing if the real price doesn't fit the budget or isn't approved
+      adjustReservation(reservation, cost);
+      options.timeout?.pause();
+      try {
+        await confirmSpending(reservation, cost);
+      } finally {
+        options.timeout?.resume();
+      }
+
+      const payment = await createPaymentHeader(requirements, option, amount, url).catch((error: unknown) => {
+        throw new PaymentError(`Could not sign payment: ${error instanceof Error ? error.message : String(error)}`);
+      });
+      logEvent("info", "payment_signed", { tool: spend.tool, model: spend.model, amount: cost, network: option.network });
+      paymentRef = payment.nonce;
+      payTo = option.payTo;
+      paymentSent = true;
+      response = await fetch(url, {
+        ...init,
+        headers: { ...init.headers, "PAYMENT-SIGNATURE": payment.header },
+      });
+      if (response.status === 402) {
+        // Refused outright: nothing was settled
+        paymentSent = false;
+        throw new PaymentError("Payment was rejected (402). Check your wallet balance.");
+      }
+      paymentRef = readPaymentResponse(response) || payment.nonce;
+    }
+
+    // Headers are in: reading (or streaming) the body isn't timed
+    options.timeout?.stop();
+    if (!response.ok) {
+      throw await readApiError(response, "API error");
+    }
+
+    const data = options.readBody ? await options.readBody(response) : await response.json() as T;
+    settle((data as { usage?: Partial<ChatUsage> }).usage);
+    recordCall(spend.tool, spend.model, Date.now() - started, true);
+    return { data, cost, paymentRef };
+  } catch (error) {
+    // Refused by the budget or the user: no call was made
+    if (!(error instanceof BudgetExceededError || error instanceof SpendDeclinedError)) {
+      recordCall(spend.tool, spend.model, Date.now() - started, false);
+    }
+    // Once the payment was sent, record it (by its nonce if no settlement came back)
+    if (paymentSent) {
+      settle();
+      throw new PaidResponseError(error);
+    }
+    releaseSpending(reservation);
+    throw error;
+  }
+}
+
+// OpenAI-compatible chat completion shapes
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];  // Parts only for user turns with images
+}
+
+interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+interface ChatCompletion {
+  model: string;
+  choices: Array<{ message: { content?: string | null } }>;
+  usage?: ChatUsage;
+}
+
+interface ChatOptions {
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  search?: boolean;
+  signal?: AbortSignal;                         // Aborts the upstream call
+  onText?: (delta: string, text: string) => void;  // Streams the response when set
+  cache?: CacheMode;                            // Response cache use (default "bypass")
+  responseFormat?: Record<string, unknown>;     // OpenAI-style response_format
+  images?: string[];                            // Image URLs / data URLs sent with the message
+  cap?: BudgetState;                            // Cost cap on top of the session budget
+}
+
+/**
+ * Result of a paid chat call
+ */
+interface ChatResult {
+  text: string;
+  usage: ChatUsage | null;
+  cost: number;
+  paymentRef: string | null;
+  cached: boolean;  // Served from the response cache (nothing paid)
+}
+
+/**
+ * Chat with a model through the x402 spend layer
+ */
+async function paidChat(tool: string, model: string, message: string, options: ChatOptions = {}): Promise<ChatResult> {
+  const messages: ChatMessage[] = [];
+  if (options.system) {
+    messages.push({ role: "system", content: options.system });
+  }
+  messages.push({ role: "user", content: userContent(message, options.images) });
+  return paidCompletion(tool, model, messages, options);
+}
+
+/**
+ * User message content, with images as multimodal parts
+ */
+function userContent(text: string, images?: string[]): ChatMessage["content"] {
+  if (!images?.length) return text;
+  return [
+    { type: "text", text },
+    ...images.map(url => ({ type: "image_url" as const, image_url: { url } })),
+  ];
+}
+
+/**
+ * Text of a message, with each image replaced by a placeholder
+ */
+function messageText(message: ChatMessage, imagePlaceholder = "[image]"): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map(part => part.type === "text" ? part.text : imagePlaceholder).join("\n");
+}
+
+/**
+ * Check a model can take image input. Uses the catalog's capability fields
+ * when present, else known multimodal model families.
+ */
+async function assertVisionModel(model: string): Promise<void> {
+  const info = (await getModels()).find(m => m.id === model) as
+    (Model & { capabilities?: string[]; inputModalities?: string[]; supportsVision?: boolean }) | undefined;
+  if (!info) {
+    throw new Error(`Model '${model}' isn't in the catalog, so image input can't be checked. Use blockrun_models to find a vision model.`);
+  }
+
+  let vision: boolean;
+  if (info.supportsVision !== undefined) {
+    vision = info.supportsVision;
+  } else if (info.capabilities || info.inputModalities) {
+    vision = Boolean(info.capabilities?.includes("vision") || info.inputModalities?.includes("image"));
+  } else {
+    vision = VISION_MODEL_PATTERNS.some(pattern => pattern.test(model));
+  }
+  if (!vision) {
+    throw new Error(`${model} doesn't accept image input. Try a vision model such as openai/gpt-4o, anthropic/claude-sonnet-4 or google/gemini-2.5-pro.`);
+  }
+}
+
+/**
+ * Load an image input: http(s) URLs pass through, anything else goes through loadImageInput
+ */
+function loadVisionInput(input: string): string {
+  return /^https?:\/\//.test(input) ? input : loadImageInput(input);
+}
+
+/**
+ * Send a full message history through the x402 spend layer
+ */
+async function paidCompletion(tool: string, model: string, messages: ChatMessage[], options: Omit<ChatOptions, "system"> = {}): Promise<ChatResult> {
+  const maxTokens = options.maxTokens ?? 1024;
+  const body: Record<string, unknown> = { model, messages, max_tokens: maxTokens };
+  if (options.temperature !== undefined) {
+    body.temperature = options.temperature;
+  }
+  if (options.search) {
+    body.search_parameters = { mode: "on" };
+  }
+  if (options.responseFormat) {
+    body.response_format = options.responseFormat;
+  }
+  const onText = options.onText;
+
+  // Identical request already answered: reuse it without paying
+  const cacheKey = isCacheable(options.cache ?? "bypass", options.temperature) ? responseCacheKey(body) : null;
+  const hit = cacheKey ? readResponseCache(cacheKey) : null;
+  if (hit) {
+    recordSpending(0);
+    onText?.(hit.text, hit.text);
+    return { text: hit.text, usage: hit.usage, cost: 0, paymentRef: null, cached: true };
+  }
+
+  if (onText) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  // Count each image as IMAGE_INPUT_TOKENS (~4 characters per token)
+  const prompt = messages.map(m => messageText(m, "x".repeat(IMAGE_INPUT_TOKENS * 4))).join("\n");
+  const estimate = await estimateChatCost(model, prompt, maxTokens);
+  const result = await callWithRetry(model, options.signal, (signal, timeout) =>
+    paidRequest<ChatCompletion>("/v1/chat/completions", body, { tool, model, estimate }, {
+      signal,
+      readBody: onText && (response => readChatStream(response, onText)),
+      cap: options.cap,
+      timeout,
+    }));
+  const text = result.data.choices[0]?.message.content || "";
+  const usage = result.data.usage || null;
+  if (cacheKey) {
+    writeResponseCache(cacheKey, { createdAt: new Date().toISOString(), model, text, usage });
+  }
+  return { text, usage, cost: result.cost, paymentRef: result.paymentRef, cached: false };
+}
+
+/**
+ * Result of a chat call whose reply was validated against a JSON Schema
+ */
+interface StructuredChatResult extends ChatResult {
+  value: unknown;     // The parsed, schema-valid reply
+  attempts: number;   // Calls made, including retries
+}
+
+/**
+ * Compile a caller's JSON Schema into a validator
+ */
+function compileResponseSchema(schema: Record<string, unknown>): z.ZodType {
+  try {
+    return z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error) {
+    throw new Error(`Invalid response_schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse a model's JSON reply, tolerating a surrounding markdown code fence
+ */
+function parseJsonReply(text: string): unknown {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+/**
+ * Chat until the reply is JSON matching a schema. Models that support it get the
+ * schema as a native response_format; every model also gets it as an instruction.
+ * Invalid replies are sent back with the validation errors, up to `retries` times.
+ */
+async function paidStructuredCompletion(
+  tool: string,
+  model: string,
+  messages: ChatMessage[],
+  schema: Record<string, unknown>,
+  retries: number,
+  options: Omit<ChatOptions, "system" | "onText" | "responseFormat"> = {},
+): Promise<StructuredChatResult> {
+  const validator = compileResponseSchema(schema);
+  const instruction = `Respond with only a JSON value that matches this JSON Schema. No prose, no code fences.\n\n${JSON.stringify(schema)}`;
+  const conversation: ChatMessage[] = messages[0]?.role === "system"
+    ? [{ role: "system", content: `${messageText(messages[0])}\n\n${instruction}` }, ...messages.slice(1)]
+    : [{ role: "system", content: instruction }, ...messages];
+  const responseFormat = STRUCTURED_OUTPUT_PROVIDERS.some(p => model.startsWith(p))
+    ? { type: "json_schema", json_schema: { name: "response", schema, strict: false } }
+    : undefined;
+
+  let cost = 0;
+  let problem = "";
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    const result = await paidCompletion(tool, model, conversation, { ...options, responseFormat });
+    cost += result.cost;
+
+    try {
+      const parsed = validator.safeParse(parseJsonReply(result.text));
+      if (parsed.success) {
+        return { ...result, cost, value: parsed.data, attempts: attempt };
+      }
+      problem = z.prettifyError(parsed.error);
+    } catch (error) {
+      problem = `Not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    conversation.push(
+      { role: "assistant", content: result.text },
+      { role: "user", content: `That reply doesn't match the schema:\n${problem}\n\nReply again with only the corrected JSON.` },
+    );
+  }
+
+  throw new Error(`${model} didn't return JSON matching response_schema after ${retries + 1} attempts. Last problem:\n${problem}`);
+}
+
+/**
+ * Read a streamed (SSE) chat completion, reporting text as it arrives
+ */
+async function readChatStream(response: Response, onText: (delta: string, text: string) => void): Promise<ChatCompletion> {
+  // The server may answer without streaming - treat that as a single chunk
+  if (!response.headers.get("content-type")?.includes("text/event-stream") || !response.body) {
+    const completion = await response.json() as ChatCompletion;
+    const text = completion.choices[0]?.message.content || "";
+    if (text) onText(text, text);
+    return completion;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let model = "";
+  let usage: ChatUsage | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice("data:".length).trim();
+      if (!payload || payload === "[DONE]") continue;
+      try {
+        const chunk = JSON.parse(payload) as {
+          model?: string;
+          choices?: Array<{ delta?: { content?: string | null } }>;
+          usage?: ChatUsage;
+        };
+        model = chunk.model || model;
+        usage = chunk.usage || usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta, text);
+        }
+      } catch {
+        continue; // Ignore keep-alives and malformed chunks
+      }
+    }
+  }
+
+  return { model, choices: [{ message: { content: text } }], usage };
+}
+
+/**
+ * Relay streamed text to the client as MCP progress notifications.
+ *
+ * Returns no relay if the client didn't send a progress token. Notifications
+ * are batched so a fast stream doesn't flood the client; call flush() once
+ * the response is complete.
+ */
+function createProgressRelay(extra: ToolExtra): { onText: (delta: string, text: string) => void; flush: () => Promise<void> } | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+
+  let pending = "";
+  let received = 0;
+  let lastSent = 0;
+  let sending: Promise<void> = Promise.resolve();
+
+  const send = () => {
+    if (!pending) return;
+    const message = pending;
+    pending = "";
+    lastSent = Date.now();
+    sending = sending
+      .then(() => extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: received, message },
+      }))
+      .catch(() => {}); // Progress is best-effort
+  };
+
+  return {
+    onText: (delta, text) => {
+      pending += delta;
+      received = text.length;
+      if (Date.now() - lastSent >= PROGRESS_INTERVAL_MS) send();
+    },
+    flush: async () => {
+      send();
+      await sending;
+    },
+  };
+}
+
+/**
+ * Ask the user to approve a payment with MCP elicitation. Without client
+ * support the payment is refused with an explanation.
+ */
+function createSpendConfirmer(server: McpServer, extra: ToolExtra, approvedModels: Set<string>): SpendConfirmer {
+  return async ({ tool, model, cost, remaining, threshold }) => {
+    if (approvedModels.has(model)) return;
+
+    const amount = `$${cost.toFixed(4)}`;
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      throw new SpendDeclinedError(
+        `${model} would cost ${amount}, above the $${threshold.toFixed(2)} confirmation threshold, ` +
+        `and this client can't ask you to approve payments (no MCP elicitation support).\n\n` +
+        `Pick a cheaper model or lower max_tokens, or raise confirmAbove in ~/.blockrun/config.json.`
+      );
+    }
+
+    let result: ElicitResult;
+    try {
+      result = await extra.sendRequest({
+        method: "elicitation/create",
+        params: {
+          message: `Approve a BlockRun payment?\n\n` +
+            `Tool: ${tool}\n` +
+            `Model: ${model}\n` +
+            `Estimated cost: ${amount} USDC (confirmation threshold $${threshold.toFixed(2)})\n` +
+            `Remaining budget after this call: ${remaining !== null ? `$${remaining.toFixed(4)}` : "Unlimited"}`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              remember: {
+                type: "boolean",
+                title: `Approve all ${model} calls this session`,
+                default: false,
+              },
+            },
+          },
+        },
+      }, ElicitResultSchema, { signal: extra.signal, timeout: CONFIRM_TIMEOUT_MS });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new SpendDeclinedError(`Could not get approval for the ${amount} payment to ${model}: ${errorMessage}`);
+    }
+
+    if (result.action !== "accept") {
+      throw new SpendDeclinedError(`Payment of ${amount} for ${model} was ${result.action === "decline" ? "declined" : "cancelled"}.`);
+    }
+    if (result.content?.remember === true) {
+      approvedModels.add(model);
+    }
+  };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+/**
+ * A judge model's scores and synthesized answer
+ */
+interface JudgeVerdict {
+  scores: Array<{ answer: number; score: number; notes?: string }>;
+  reasoning: string;
+  finalAnswer: string;
+}
+
+/**
+ * Parse a judge's JSON reply. Models often wrap JSON in prose or code fences,
+ * so take the outermost object; if there is none, use the whole reply as the answer.
+ */
+function parseJudgeVerdict(text: string): JudgeVerdict {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as {
+      scores?: Array<{ answer?: number; score?: number; notes?: string }>;
+      reasoning?: string;
+      final_answer?: string;
+    };
+    return {
+      scores: (parsed.scores ?? [])
+        .filter(s => typeof s.answer === "number" && typeof s.score === "number")
+        .map(s => ({ answer: s.answer!, score: s.score!, notes: s.notes })),
+      reasoning: parsed.reasoning ?? "",
+      finalAnswer: parsed.final_answer ?? text,
+    };
+  } catch {
+    return { scores: [], reasoning: "(judge did not return JSON)", finalAnswer: text };
+  }
+}
+
+// ============================================================================
+// ATTACHMENTS
+// ============================================================================
+
+// A file or resource included in a prompt
+interface Attachment {
+  source: string;    // Path or URI it was loaded from
+  language: string;  // Fence language tag ("" if unknown)
+  bytes: number;
+  text: string;
+}
+
+function expandHome(filePath: string): string {
+  return filePath === "~" || filePath.startsWith("~/") ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+}
+
+/**
+ * Convert a glob (*, **, ?, {a,b}) to a RegExp over "/"-separated paths
+ */
+function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{" && glob.indexOf("}", i) > i) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(escape).join("|")})`;
+      i = end;
+    } else {
+      source += escape(c);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files matching a glob, sorted. Walks from the pattern's fixed prefix and
+ * skips dependency, VCS and .blockrun directories.
+ */
+function expandGlob(pattern: string): string[] {
+  const absolute = path.resolve(expandHome(pattern)).split(path.sep).join("/");
+  const segments = absolute.split("/");
+  const firstWild = segments.findIndex(seg => /[*?{]/.test(seg));
+  const base = segments.slice(0, firstWild).join("/") || "/";
+  const matcher = globToRegExp(absolute);
+
+  const matches: string[] = [];
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directory
+    }
+    for (const entry of entries) {
+      if (matches.length > MAX_GLOB_MATCHES) return;
+      const full = `${dir === "/" ? "" : dir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules" && entry.name !== ".git" && entry.name !== ".blockrun") walk(full);
+      } else if (entry.isFile() && matcher.test(full)) {
+        matches.push(full);
+      }
+    }
+  };
+  walk(base);
+
+  if (matches.length > MAX_GLOB_MATCHES) {
+    throw new Error(`Attachment glob '${pattern}' matches more than ${MAX_GLOB_MATCHES} files; narrow it down`);
+  }
+  return matches.sort();
+}
+
+/**
+ * Read one of this server's blockrun:// resources
+ */
+async function readBlockrunResource(uri: string): Promise<string> {
+  if (uri === "blockrun://wallet") return JSON.stringify(getWalletInfo(), null, 2);
+  if (uri === "blockrun://models") return JSON.stringify(await getModels(), null, 2);
+  if (uri === "blockrun://spending") return JSON.stringify(buildSpendingReport(readLedger()), null, 2);
+
+  const conversationId = uri.match(/^blockrun:\/\/conversations\/(.+)$/)?.[1];
+  const conversation = conversationId && isValidConversationId(conversationId) ? loadConversation(conversationId) : null;
+  if (conversation) return JSON.stringify(conversation, null, 2);
+  throw new Error(`Resource not found: ${uri}`);
+}
+
+/**
+ * Refuse to read the server's own files for an HTTP client. A bearer token
+ * grants paid model calls, not access to the host's disk.
+ */
+function assertLocalFilesAllowed(what: string): void {
+  if (clientScope.getStore()) {
+    throw new Error(`${what} can't be read from the server's disk over HTTP`);
+  }
+}
+
+/**
+ * Whether a path is inside ~/.blockrun (wallet keys, ledgers, config), following symlinks
+ */
+function isInWalletDir(filePath: string): boolean {
+  const real = (p: string) => {
+    try {
+      return fs.realpathSync(p);
+    } catch {
+      return path.resolve(p);
+    }
+  };
+  const relative = path.relative(real(WALLET_DIR), real(filePath));
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Load attachments from file paths, globs, file:// URIs and blockrun:// resources.
+ * Oversized or binary files fail the call rather than being silently dropped.
+ * Over HTTP only blockrun:// resources are allowed, and the wallet directory is never read.
+ */
+async function loadAttachments(specs: string[]): Promise<Attachment[]> {
+  const attachments: Attachment[] = [];
+  const seen = new Set<string>();
+  let total = 0;
+
+  const add = (source: string, text: string, language: string) => {
+    const bytes = Buffer.byteLength(text);
+    if (bytes > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`Attachment ${source} is ${(bytes / 1024).toFixed(0)} KB; the limit is ${MAX_ATTACHMENT_BYTES / 1024} KB per file`);
+    }
+    total += bytes;
+    if (total > MAX_ATTACHMENTS_TOTAL_BYTES) {
+      throw new Error(`Attachments exceed ${MAX_ATTACHMENTS_TOTAL_BYTES / 1024} KB in total; attach fewer files`);
+    }
+    attachments.push({ source, language, bytes, text });
+  };
+
+  const addFile = (filePath: string) => {
+    const resolved = path.resolve(filePath);
+    if (seen.has(resolved)) return;
+    seen.add(resolved);
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+      throw new Error(`Attachment not found: ${filePath}`);
+    }
+    if (isInWalletDir(resolved)) {
+      throw new Error(`Attachment ${filePath} is in the BlockRun wallet directory, which is never attached`);
+    }
+    const data = fs.readFileSync(resolved);
+    if (data.includes(0)) {
+      throw new Error(`Attachment ${filePath} looks like a binary file`);
+    }
+    add(resolved, data.toString("utf-8"), ATTACHMENT_LANGUAGES[path.extname(resolved).slice(1).toLowerCase()] ?? "");
+  };
+
+  for (const spec of specs) {
+    if (spec.startsWith("blockrun://")) {
+      add(spec, await readBlockrunResource(spec), "json");
+      continue;
+    }
+    assertLocalFilesAllowed(`Attachment ${spec}`);
+    if (spec.startsWith("file://")) {
+      addFile(new URL(spec).pathname);
+    } else if (/^[a-z][a-z0-9+.-]*:\/\//i.test(spec)) {
+      throw new Error(`Unsupported attachment URI: ${spec} (use a file path, glob, file:// or blockrun:// URI)`);
+    } else if (/[*?{]/.test(spec)) {
+      const files = expandGlob(spec);
+      if (files.length === 0) {
+        throw new Error(`Attachment glob matched no files: ${spec}`);
+      }
+      files.forEach(addFile);
+    } else {
+      addFile(expandHome(spec));
+    }
+  }
+  return attachments;
+}
+
+/**
+ * Append attachments to a message as fenced blocks
+ */
+function withAttachments(message: string, attachments: Attachment[]): string {
+  if (attachments.length === 0) return message;
+  const blocks = attachments.map(a => {
+    // Use a fence longer than any backtick run in the file
+    const longestRun = Math.max(0, ...(a.text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+    return `${a.source}:\n${fence}${a.language}\n${a.text}\n${fence}`;
+  });
+  return `${message}\n\nAttached files:\n\n${blocks.join("\n\n")}`;
+}
+
+/**
+ * Note listing attachments, with a warning if the prompt may not fit the model
+ */
+async function describeAttachments(attachments: Attachment[], model: string, prompt: string, maxTokens: number): Promise<string> {
+  if (attachments.length === 0) return "";
+  const list = attachments.map(a => `${a.source} (${(a.bytes / 1024).toFixed(1)} KB)`).join(", ");
+  const needed = estimateTokens(prompt) + maxTokens;
+  const window = await getContextWindow(model);
+  const warning = needed > window
+    ? `\n[Warning: ~${needed} tokens with attachments and max_tokens exceeds ${model}'s ${window}-token context window]`
+    : "";
+  return `\n\n[Attached: ${list}]${warning}`;
+}
+
+// ============================================================================
+// BATCH RUNS
+// ============================================================================
+
+// One request line of a blockrun_batch input file
+const BatchRequestSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  model: z.string().optional(),
+  message: z.string(),
+  system: z.string().optional(),
+  max_tokens: z.number().int().positive().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+// One result line of a blockrun_batch output file
+interface BatchResult {
+  id: string;
+  line: number;  // 1-based line in the input file
+  model: string | null;
+  ok: boolean;
+  response: string | null;
+  error: string | null;
+  cost: number;
+  latencyMs: number;
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+/**
+ * A request line's id: its "id" field, else its line number
+ */
+function batchLineId(text: string, line: number): string {
+  try {
+    const id = (JSON.parse(text) as { id?: unknown }).id;
+    if (typeof id === "string" || typeof id === "number") return String(id);
+  } catch {
+    // Invalid lines are reported when they run
+  }
+  return `line-${line}`;
+}
+
+/**
+ * Ids that already have a successful result, so a rerun can skip them
+ */
+function readCompletedBatchIds(outputFile: string): Set<string> {
+  const done = new Set<string>();
+  if (!fs.existsSync(outputFile)) return done;
+  for (const line of fs.readFileSync(outputFile, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const result = JSON.parse(line) as BatchResult;
+      if (result.ok) done.add(result.id);
+    } catch {
+      continue; // Skip a line cut off by a crash
+    }
+  }
+  return done;
+}
+
+// ============================================================================
+// RESPONSE CACHE
+// ============================================================================
+
+// auto: cache deterministic (temperature 0) calls; always: cache regardless of temperature; bypass: skip the cache
+type CacheMode = "auto" | "bypass" | "always";
+
+interface CacheEntry {
+  createdAt: string;
+  model: string;
+  text: string;
+  usage: ChatUsage | null;
+}
+
+/**
+ * Whether a call may use the cache. Sampled responses (temperature > 0, or the
+ * model default) are only cached when the caller asks for it.
+ */
+function isCacheable(mode: CacheMode, temperature: number | undefined): boolean {
+  if (!config.cache?.enabled || mode === "bypass") return false;
+  return mode === "always" || temperature === 0;
+}
+
+/**
+ * Cache key: hash of the request body (model, messages and parameters)
+ */
+function responseCacheKey(body: Record<string, unknown>): string {
+  return crypto.createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+/**
+ * Look up a cached response, dropping it if it has expired
+ */
+function readResponseCache(key: string): CacheEntry | null {
+  const file = path.join(storeDir(CACHE_DIR), `${key}.json`);
+  try {
+    const entry = JSON.parse(fs.readFileSync(file, "utf-8")) as CacheEntry;
+    const ttl = (config.cache?.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS) * 1000;
+    if (Date.now() - new Date(entry.createdAt).getTime() > ttl) {
+      fs.rmSync(file, { force: true });
+      return null;
+    }
+    // Mark as recently used so size pruning evicts it last
+    const now = new Date();
+    fs.utimesSync(file, now, now);
+    return entry;
+  } catch {
+    return null;  // Missing or unreadable entries are misses
+  }
+}
+
+/**
+ * Store a response, then evict least recently used entries over the size cap.
+ * Failures are logged, never thrown - the call has already succeeded.
+ */
+function writeResponseCache(key: string, entry: CacheEntry): void {
+  try {
+    const dir = storeDir(CACHE_DIR);
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(path.join(dir, `${key}.json`), JSON.stringify(entry), { mode: 0o600 });
+
+    const files = fs.readdirSync(dir)
+      .filter(name => name.endsWith(".json"))
+      .map(name => {
+        const file = path.join(dir, name);
+        const stat = fs.statSync(file);
+        return { file, size: stat.size, mtime: stat.mtimeMs };
+      })
+      .sort((a, b) => a.mtime - b.mtime);
+
+    const maxBytes = (config.cache?.maxSizeMb ?? DEFAULT_CACHE_MAX_MB) * 1024 * 1024;
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    for (const f of files) {
+      if (total <= maxBytes) break;
+      fs.rmSync(f.file, { force: true });
+      total -= f.size;
+    }
+  } catch (err) {
+    console.error(`[BlockRun] Warning: Could not write to response cache: ${err}`);
+  }
+}
+
+// ============================================================================
+// CONVERSATIONS
+// ============================================================================
+
+/**
+ * A multi-turn conversation kept by the server for blockrun_chat
+ */
+interface Conversation {
+  id: string;
+  system?: string;
+  messages: ChatMessage[];     // Full user/assistant history
+  summary?: string;            // Summary of the first `summarizedCount` messages
+  summarizedCount?: number;
+  model?: string;              // Model used for the last turn
+  forkedFrom?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Conversation ids become file names, so keep them to a safe character set
+ */
+function isValidConversationId(id: string): boolean {
+  return /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,127}$/.test(id);
+}
+
+function conversationFile(id: string): string {
+  return path.join(storeDir(CONVERSATIONS_DIR), `${id}.json`);
+}
+
+function loadConversation(id: string): Conversation | null {
+  try {
+    return JSON.parse(fs.readFileSync(conversationFile(id), "utf-8")) as Conversation;
+  } catch {
+    return null;
+  }
+}
+
+function saveConversation(conversation: Conversation): void {
+  fs.mkdirSync(storeDir(CONVERSATIONS_DIR), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(conversationFile(conversation.id), JSON.stringify(conversation, null, 2), { mode: 0o600 });
+}
+
+/**
+ * List saved conversations, most recently updated first
+ */
+function listConversations(): Conversation[] {
+  const dir = storeDir(CONVERSATIONS_DIR);
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(f => f.endsWith(".json"))
+    .map(f => loadConversation(f.slice(0, -".json".length)))
+    .filter((c): c is Conversation => c !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get a model's context window from the catalog
+ */
+async function getContextWindow(model: string): Promise<number> {
+  try {
+    const info = (await getModels()).find(m => m.id === model) as (Model & { contextWindow?: number }) | undefined;
+    if (info?.contextWindow) return info.contextWindow;
+  } catch {
+    // Catalog unavailable - use the default
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Build the messages for the next turn, fitted to the model's context window.
+ *
+ * The oldest turns are dropped until the history fits. With the "summarize"
+ * strategy, dropped turns are folded into the conversation's running summary
+ * (a paid call to SUMMARY_MODEL) instead of being forgotten.
+ */
+async function buildConversationMessages(
+  conversation: Conversation,
+  message: string,
+  model: string,
+  maxTokens: number,
+  strategy: "trim" | "summarize",
+): Promise<{ messages: ChatMessage[]; dropped: number }> {
+  const contextLimit = (await getContextWindow(model)) - maxTokens;
+  const countTokens = (msgs: ChatMessage[]) => msgs.reduce((sum, m) => sum + estimateTokens(messageText(m)) + 4, 0);
+
+  const systemMessages = (): ChatMessage[] => {
+    const parts = [
+      conversation.system,
+      conversation.summary && `Summary of the earlier conversation:\n${conversation.summary}`,
+    ].filter(Boolean);
+    return parts.length ? [{ role: "system", content: parts.join("\n\n") }] : [];
+  };
+
+  const turns: ChatMessage[] = [
+    ...conversation.messages.slice(conversation.summarizedCount ?? 0),
+    { role: "user", content: message },
+  ];
+  const dropped: ChatMessage[] = [];
+  while (turns.length > 1 && countTokens([...systemMessages(), ...turns]) > contextLimit) {
+    dropped.push(turns.shift()!);
+    // Never start the history on an assistant turn
+    while (turns.length > 1 && turns[0].role === "assistant") {
+      dropped.push(turns.shift()!);
+    }
+  }
+
+  if (strategy === "summarize" && dropped.length > 0) {
+    const transcript = dropped.map(m => `${m.role.toUpperCase()}: ${messageText(m)}`).join("\n\n");
+    const { text } = await paidChat("blockrun_chat", SUMMARY_MODEL, transcript, {
+      system: "Summarize this conversation so it can be continued later. Keep facts, decisions, open questions and any code or names verbatim where they matter." +
+        (conversation.summary ? `\n\nFold it into this existing summary:\n${conversation.summary}` : ""),
+      maxTokens: 1024,
+    });
+    conversation.summary = text;
+    conversation.summarizedCount = (conversation.summarizedCount ?? 0) + dropped.length;
+  }
+
+  return { messages: [...systemMessages(), ...turns], dropped: dropped.length };
+}
+
+/**
+ * Format a conversation as a readable transcript
+ */
+function formatConversation(conversation: Conversation): string {
+  const header = [
+    `Conversation: ${conversation.id}`,
+    conversation.model && `Last model: ${conversation.model}`,
+    conversation.forkedFrom && `Forked from: ${conversation.forkedFrom}`,
+    `Messages: ${conversation.messages.length}`,
+    `Updated: ${conversation.updatedAt}`,
+  ].filter(Boolean).join("\n");
+
+  const system = conversation.system ? `\n\n[system]\n${conversation.system}` : "";
+  const summary = conversation.summary ? `\n\n[summary of first ${conversation.summarizedCount} messages]\n${conversation.summary}` : "";
+  const turns = conversation.messages.map(m => `[${m.role}]\n${messageText(m)}`).join("\n\n");
+  return `${header}${system}${summary}\n\n${turns}`;
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+type ImageMode = "generate" | "edit" | "variation";
+
+// Catalog fields that image models may carry
+type ImageModelInfo = Model & {
+  type?: string;
+  capabilities?: string[];
+  supportedSizes?: string[];
+  pricePerImage?: number;
+};
+
+/**
+ * Whether a catalog entry is an image model
+ */
+function isImageModel(m: ImageModelInfo): boolean {
+  return m.type === "image" || m.id.includes("dall-e") || m.id.includes("flux") ||
+    m.id.includes("banana") || m.id.includes("image");
+}
+
+/**
+ * Modes an image model supports, from the catalog or the fallback table
+ */
+function imageModes(m: ImageModelInfo): ImageMode[] {
+  const listed = m.capabilities?.filter((c: string): c is ImageMode => c === "generate" || c === "edit" || c === "variation");
+  return listed?.length ? listed : IMAGE_CAPABILITIES[m.id] ?? ["generate"];
+}
+
+/**
+ * Load a source image from a local path, a data URL, or raw base64, as a data URL.
+ * Whatever the source, the bytes must be a PNG, JPEG, WebP or GIF image.
+ * HTTP clients can't name files on the server.
+ */
+function loadImageInput(input: string): string {
+  const allowFiles = !clientScope.getStore();
+  const asDataUrl = (data: Buffer, source: string) => {
+    const type = sniffImageType(data);
+    if (!type) {
+      throw new Error(`${source} is not a PNG, JPEG, WebP or GIF image`);
+    }
+    return `data:${type};base64,${data.toString("base64")}`;
+  };
+
+  if (input.startsWith("data:image/")) {
+    return asDataUrl(Buffer.from(input.slice(input.indexOf(",") + 1), "base64"), "The image data URL");
+  }
+  if (allowFiles) {
+    const filePath = input.startsWith("~/") ? path.join(os.homedir(), input.slice(2)) : input;
+    if (fs.existsSync(filePath)) {
+      return asDataUrl(fs.readFileSync(filePath), `Image ${input}`);
+    }
+  }
+  if (input.length > 64 && /^[A-Za-z0-9+/=\s]+$/.test(input)) {
+    return asDataUrl(Buffer.from(input, "base64"), "The base64 image");
+  }
+  if (!allowFiles) {
+    throw new Error(`Image ${input} must be a URL, data URL or base64: files on the server can't be read over HTTP`);
+  }
+  throw new Error(`Image not found: ${input} (expected a file path, data URL, or base64)`);
+}
+
+/**
+ * One generated image as returned by the images API
+ */
+interface GeneratedImage {
+  url?: string;
+  b64_json?: string;
+  revised_prompt?: string;
+}
+
+/**
+ * Fetch a generated image's bytes (inline base64 or a short-lived URL)
+ */
+async function downloadImage(image: GeneratedImage): Promise<{ data: Buffer; mimeType: string }> {
+  if (image.b64_json) {
+    const data = Buffer.from(image.b64_json, "base64");
+    return { data, mimeType: sniffImageType(data) ?? "image/png" };
+  }
+  if (!image.url) {
+    throw new Error("No image URL or data in response");
+  }
+  if (image.url.startsWith("data:")) {
+    const [header, payload] = image.url.split(",", 2);
+    return { data: Buffer.from(payload, "base64"), mimeType: header.slice("data:".length).split(";")[0] };
+  }
+
+  const response = await fetch(image.url);
+  if (!response.ok) {
+    throw new Error(`Image download failed: ${response.status}`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  const contentType = response.headers.get("content-type")?.split(";")[0];
+  return { data, mimeType: contentType?.startsWith("image/") ? contentType : sniffImageType(data) ?? "image/png" };
+}
+
+/**
+ * Detect an image's MIME type from its magic bytes, or null if it isn't a known image format
+ */
+function sniffImageType(data: Buffer): string | null {
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  if (data.subarray(0, 3).toString("ascii") === "GIF") return "image/gif";
+  return null;
+}
+
+/**
+ * Save an image and a sidecar .json with its prompt, model and cost
+ */
+function saveImage(dir: string, data: Buffer, mimeType: string, metadata: Record<string, unknown> & { prompt: string }): { path: string; metadataPath: string } {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const slug = metadata.prompt.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "image";
+  const ext = mimeType.split("/")[1]?.replace("jpeg", "jpg") || "png";
+  // Index and random suffix keep images saved in the same millisecond apart
+  const index = typeof metadata.index === "number" ? `-${metadata.index}` : "";
+  const base = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${slug}${index}-${crypto.randomBytes(3).toString("hex")}`);
+
+  const imagePath = `${base}.${ext}`;
+  const metadataPath = `${base}.json`;
+  fs.writeFileSync(imagePath, data);
+  fs.writeFileSync(metadataPath, JSON.stringify({ ...metadata, file: path.basename(imagePath) }, null, 2));
+  return { path: imagePath, metadataPath };
+}
+
+// ============================================================================
+// EMBEDDINGS
+// ============================================================================
+
+// OpenAI-compatible embeddings response
+interface EmbeddingResponse {
+  data: { embedding: number[]; index: number }[];
+  usage?: { prompt_tokens: number; total_tokens: number };
+}
+
+interface EmbedResult {
+  vectors: number[][];  // One per input text, in order
+  cost: number;
+  paymentRef: string | null;
+}
+
+/**
+ * Embed texts through the x402 spend layer
+ */
+async function paidEmbed(tool: string, model: string, texts: string[], signal?: AbortSignal): Promise<EmbedResult> {
+  const estimate = await estimateEmbeddingCost(model, texts);
+  const result = await callWithRetry(model, signal, (attemptSignal, timeout) =>
+    paidRequest<EmbeddingResponse>("/v1/embeddings", { model, input: texts }, { tool, model, estimate }, { signal: attemptSignal, timeout }));
+  const vectors = [...result.data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+  if (vectors.length !== texts.length) {
+    throw new Error(`Expected ${texts.length} embeddings from ${model} but got ${vectors.length}`);
+  }
+  return { vectors, cost: result.cost, paymentRef: result.paymentRef };
+}
+
+// A stored document and its embedding
+interface IndexItem {
+  id: string;
+  text: string;
+  metadata?: Record<string, string | number | boolean>;
+  vector: number[];
+}
+
+// A named collection; every vector comes from the same model
+interface IndexCollection {
+  name: string;
+  model: string;
+  dimensions: number;
+  items: IndexItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Collection names become file names, so keep them to a safe character set
+ */
+function isValidCollectionName(name: string): boolean {
+  return /^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,127}$/.test(name);
+}
+
+function collectionFile(name: string): string {
+  return path.join(storeDir(INDEX_DIR), `${name}.json`);
+}
+
+function loadCollection(name: string): IndexCollection | null {
+  const file = collectionFile(name);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as IndexCollection;
+}
+
+function saveCollection(collection: IndexCollection): void {
+  fs.mkdirSync(storeDir(INDEX_DIR), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(collectionFile(collection.name), JSON.stringify(collection), { mode: 0o600 });
+}
+
+/**
+ * All collections, most recently updated first
+ */
+function listCollections(): IndexCollection[] {
+  const dir = storeDir(INDEX_DIR);
+  if (!fs.existsSync(dir)) return [];
+  const collections: IndexCollection[] = [];
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      collections.push(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")) as IndexCollection);
+    } catch {
+      continue; // Skip unreadable files
+    }
+  }
+  return collections.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ============================================================================
+// ON-CHAIN HISTORY
+// ============================================================================
+
+// Base and Base Sepolia produce a block every 2 seconds
+const BLOCK_TIME_SECONDS = 2;
+const LOG_CHUNK_BLOCKS = 10_000;                                // Per eth_getLogs request
+const DEFAULT_HISTORY_BLOCKS = (24 * 60 * 60) / BLOCK_TIME_SECONDS;     // Last 24 hours
+const MAX_HISTORY_BLOCKS = (7 * 24 * 60 * 60) / BLOCK_TIME_SECONDS;     // 7 days per call
+
+// Event topics: Transfer(address,address,uint256) and EIP-3009 AuthorizationUsed(address,bytes32)
+const TRANSFER_TOPIC = keccak256(Buffer.from("Transfer(address,address,uint256)"));
+const AUTHORIZATION_USED_TOPIC = keccak256(Buffer.from("AuthorizationUsed(address,bytes32)"));
+
+interface RpcLog {
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * A USDC transfer to or from the wallet.
+ * - deposit: funds received from anyone but BlockRun
+ * - payment: paid to BlockRun (a recipient in the ledger, or matched to a ledger entry)
+ * - refund: received from a BlockRun address
+ * - transfer_out: sent anywhere else
+ */
+interface WalletTransfer {
+  txHash: string;
+  block: number;
+  timestamp: string | null;
+  kind: "deposit" | "payment" | "refund" | "transfer_out";
+  amount: number;               // USDC
+  counterparty: string;
+  matched: { timestamp: string; tool: string; model: string; cost: number; paymentRef: string } | null;
+  flag?: string;                // Why this transfer needs a look
+}
+
+function addressTopic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+function topicAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`;
+}
+
+/**
+ * Fetch the block number and timestamp of a block ("latest" or a number)
+ */
+async function getBlock(block: number | "latest"): Promise<{ number: number; timestamp: number }> {
+  const tag = block === "latest" ? block : `0x${block.toString(16)}`;
+  const result = await rpcCall<{ number: string; timestamp: string }>("eth_getBlockByNumber", [tag, false]);
+  if (!result) {
+    throw new Error(`Could not fetch block ${block} from any ${network.name} RPC endpoint`);
+  }
+  return { number: parseInt(result.number, 16), timestamp: parseInt(result.timestamp, 16) };
+}
+
+/**
+ * Find the block closest to a time, from the fixed block time and one correction
+ */
+async function blockAtTime(time: number, latest: { number: number; timestamp: number }): Promise<number> {
+  const seconds = Math.floor(time / 1000);
+  const estimate = Math.max(latest.number - Math.floor((latest.timestamp - seconds) / BLOCK_TIME_SECONDS), 0);
+  if (estimate >= latest.number) return latest.number;
+  const { timestamp } = await getBlock(estimate);
+  return Math.min(Math.max(estimate + Math.round((seconds - timestamp) / BLOCK_TIME_SECONDS), 0), latest.number);
+}
+
+/**
+ * Fetch USDC logs over a block range, split into chunks the RPC endpoints accept
+ */
+async function getUsdcLogs(topics: (string | null)[], fromBlock: number, toBlock: number): Promise<RpcLog[]> {
+  const logs: RpcLog[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_BLOCKS) {
+    const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, toBlock);
+    const chunk = await rpcCall<RpcLog[]>("eth_getLogs", [{
+      address: network.usdc.address,
+      topics,
+      fromBlock: `0x${start.toString(16)}`,
+      toBlock: `0x${end.toString(16)}`,
+    }]);
+    if (!chunk) {
+      throw new Error(`Could not fetch USDC logs for blocks ${start}-${end} from any ${network.name} RPC endpoint`);
+    }
+    logs.push(...chunk);
+  }
+  return logs;
+}
+
+/**
+ * Load the wallet's USDC transfers over a block range and match them against the
+ * ledger. Payments settle through EIP-3009 authorizations, so a ledger paymentRef
+ * is matched by transaction hash or by the authorization nonce.
+ */
+async function getWalletTransfers(address: string, fromBlock: number, toBlock: number, ledger: LedgerEntry[]): Promise<WalletTransfer[]> {
+  const wallet = addressTopic(address);
+  const [outgoing, incoming, authorizations] = [
+    await getUsdcLogs([TRANSFER_TOPIC, wallet], fromBlock, toBlock),
+    await getUsdcLogs([TRANSFER_TOPIC, null, wallet], fromBlock, toBlock),
+    await getUsdcLogs([AUTHORIZATION_USED_TOPIC, wallet], fromBlock, toBlock),
+  ];
+
+  // Ledger entries by payment reference, and the addresses BlockRun was paid at
+  const byRef = new Map(ledger.filter(e => e.paymentRef).map(e => [e.paymentRef!.toLowerCase(), e]));
+  const blockrunAddresses = new Set(ledger.flatMap(e => e.payTo ? [e.payTo.toLowerCase()] : []));
+  const nonceByTx = new Map(authorizations.map(log => [log.transactionHash.toLowerCase(), log.topics[2].toLowerCase()]));
+
+  const transfers: WalletTransfer[] = [];
+  for (const [direction, logs] of [["out", outgoing], ["in", incoming]] as const) {
+    for (const log of logs) {
+      const txHash = log.transactionHash.toLowerCase();
+      const counterparty = topicAddress(direction === "out" ? log.topics[2] : log.topics[1]);
+      const amount = Number(BigInt(log.data)) / 1e6;  // USDC has 6 decimals
+      const entry = direction === "out" ? byRef.get(txHash) ?? byRef.get(nonceByTx.get(txHash) ?? "") : undefined;
+      const isBlockrun = blockrunAddresses.has(counterparty);
+
+      let kind: WalletTransfer["kind"];
+      let flag: string | undefined;
+      if (direction === "in") {
+        kind = isBlockrun ? "refund" : "deposit";
+        if (isBlockrun) flag = "Credit from BlockRun with no local record";
+      } else if (entry || isBlockrun) {
+        kind = "payment";
+        if (!entry) flag = "Charge with no matching ledger entry";
+        else if (Math.abs(entry.cost - amount) > 1e-6) flag = `Charged $${amount.toFixed(6)} but the ledger recorded $${entry.cost.toFixed(6)}`;
+      } else {
+        kind = "transfer_out";
+        if (nonceByTx.has(txHash)) flag = "Signed payment authorization with no matching ledger entry";
+      }
+
+      transfers.push({
+        txHash,
+        block: parseInt(log.blockNumber, 16),
+        timestamp: null,
+        kind,
+        amount,
+        counterparty,
+        matched: entry ? { timestamp: entry.timestamp, tool: entry.tool, model: entry.model, cost: entry.cost, paymentRef: entry.paymentRef! } : null,
+        ...(flag && { flag }),
+      });
+    }
+  }
+
+  // Newest first
+  return transfers.sort((a, b) => b.block - a.block);
+}
+
+/**
+ * Create an MCP server with all BlockRun tools, resources and prompts.
+ * Stdio mode uses one; HTTP mode creates one per client session.
+ */
+function createServer(client?: HttpClient): McpServer {
+  // Create the server with modern McpServer class
+  const server = new McpServer({
+    name: "blockrun-mcp",
+    version: VERSION,
+  }, {
+    capabilities: { logging: {} },
+  });
+
+  // Payment, fallback, budget and RPC events go out as log notifications
+  const logTarget = { server, client };
+  logTargets.add(logTarget);
+  server.server.onclose = () => logTargets.delete(logTarget);
+
+  // Models the user approved for the rest of this session (see confirmSpending)
+  const approvedModels = new Set<string>();
+
+  // Paid tools run inside this so payments above the threshold can ask the user first
+  const withSpendConfirmation = <A, R>(handler: (args: A, extra: ToolExtra) => Promise<R>) =>
+    (args: A, extra: ToolExtra) =>
+      confirmScope.run(createSpendConfirmer(server, extra, approvedModels), () => handler(args, extra));
+
+  // ============================================================================
+  // TOOLS
+  // ============================================================================
+
+  // blockrun_chat - Main chat tool
+  server.registerTool(
+    "blockrun_chat",
+    {
+      description: `Chat with any AI model via BlockRun. Supports 30+ models including GPT-5, Claude Opus 4, Gemini 3, and more.
+Pay-per-request with x402 micropayments - no API keys needed.
+
+Popular models:
+- openai/gpt-5.2: Most capable OpenAI model
+- anthropic/claude-opus-4: Best for complex reasoning
+- anthropic/claude-sonnet-4: Fast & capable (recommended)
+- google/gemini-2.5-pro: Great for long context
+- deepseek/deepseek-chat: Very affordable
+
+Pass a conversation_id to keep multi-turn history on the server (manage it with blockrun_conversations).
+Pass images (paths, base64 or URLs) to ask a vision model about screenshots or diagrams.
+Pass a response_schema (JSON Schema) to get machine-readable JSON back: the reply is validated, retried
+with the validation errors if needed, and returned parsed in structuredContent.
+Pass fallback_models to try other models, in order, if the first one fails (payment errors don't fall back).
+Use blockrun_models to see all available models with pricing.`,
+      inputSchema: {
+        model: z.string().describe("Model ID (e.g., 'anthropic/claude-sonnet-4', 'openai/gpt-4o'). Use blockrun_models to list all."),
+        message: z.string().describe("Your message to the AI"),
+        system: z.string().optional().describe("Optional system prompt to set context/behavior"),
+        max_tokens: z.number().optional().describe("Maximum tokens in response (default 1024, configurable)"),
+        temperature: z.number().optional().describe("Creativity level 0-2 (default 1, configurable)"),
+        conversation_id: z.string().optional().describe("Continue (or start) a multi-turn conversation with this id. History is kept by the server and sent on each turn."),
+        history: z.enum(["trim", "summarize"]).optional().default("trim").describe("How to fit a long conversation into the model's context window: drop the oldest turns, or summarize them"),
+        cache: z.enum(["auto", "bypass", "always"]).optional().describe("Response cache (if enabled in config): 'auto' reuses identical temperature-0 calls, 'always' also caches temperature > 0, 'bypass' skips it"),
+        attachments: z.array(z.string()).optional().describe("Files to include in the prompt: paths, globs (src/**/*.ts), file:// or blockrun:// URIs"),
+        images: z.array(z.string()).optional().describe("Images for vision models: local paths, base64, data URLs or http(s) URLs"),
+        response_schema: z.record(z.string(), z.unknown()).optional().describe("JSON Schema the reply must match. The parsed reply is returned in structuredContent (non-object values as { value })."),
+        schema_retries: z.number().int().min(0).max(5).optional().default(2).describe("Times to retry with the validation errors if the reply doesn't match response_schema"),
+        fallback_models: z.array(z.string()).optional().describe("Models to try, in order, if the model fails (e.g. it's down or rate-limited)"),
+      },
+    },
+    withSpendConfirmation(async ({ model, message: question, system, max_tokens, temperature, conversation_id, history, cache, attachments, images, response_schema, schema_retries, fallback_models }, extra) => {
+      const defaults = toolDefaults("blockrun_chat");
+      max_tokens ??= defaults.maxTokens;
+      temperature ??= defaults.temperature ?? 1;
+      const progress = createProgressRelay(extra);
+      const attachmentList = (files: Attachment[]) => files.map(a => ({ source: a.source, bytes: a.bytes }));
+      const structuredReply = (result: StructuredChatResult, note = "") => ({
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result.value, null, 2) + note +
+            (result.attempts > 1 ? `\n\n[Valid JSON after ${result.attempts} attempts]` : "") +
+            (result.cached ? CACHED_NOTE : ""),
+        }],
+        structuredContent: (result.value !== null && typeof result.value === "object" && !Array.isArray(result.value)
+          ? result.value
+          : { value: result.value }) as Record<string, unknown>,
+      });
+
+      try {
+        const files = attachments?.length ? await loadAttachments(attachments) : [];
+        const message = withAttachments(question, files);
+        const attachedNote = await describeAttachments(files, model, `${system || ""}${message}`, max_tokens);
+        const models = [model, ...(fallback_models ?? []).filter(m => m !== model)];
+        if (images?.length) {
+          for (const candidate of models) {
+            await assertVisionModel(candidate);
+          }
+        }
+        const imageUrls = images?.map(loadVisionInput);
+
+        if (conversation_id === undefined && response_schema) {
+          const messages: ChatMessage[] = system ? [{ role: "system", content: system }] : [];
+          messages.push({ role: "user", content: userContent(message, imageUrls) });
+          const { model: used, result, failures } = await callWithFallbacks(models, extra.signal, candidate =>
+            paidStructuredCompletion("blockrun_chat", candidate, messages, response_schema, schema_retries, {
+              maxTokens: max_tokens,
+              temperature,
+              signal: extra.signal,
+              cache: cache ?? "auto",
+            }));
+          return structuredReply(result, attachedNote + fallbackNote(used, failures));
+        }
+
+        if (conversation_id === undefined) {
+          const { model: used, result: { text, cached }, failures } = await callWithFallbacks(models, extra.signal, candidate =>
+            paidChat("blockrun_chat", candidate, message, {
+              system,
+              maxTokens: max_tokens,
+              temperature,
+              signal: extra.signal,
+              onText: progress?.onText,
+              cache: cache ?? "auto",
+              images: imageUrls,
+            }));
+          await progress?.flush();
+          return {
+            content: [{ type: "text", text: text + attachedNote + fallbackNote(used, failures) + (cached ? CACHED_NOTE : "") }],
+            ...(files.length > 0 && { structuredContent: { response: text, attachments: attachmentList(files) } }),
+          };
+        }
+
+        if (!isValidConversationId(conversation_id)) {
+          return {
+            content: [{ type: "text", text: "Error: conversation_id may only contain letters, numbers, '_', '-' and '.'" }],
+            isError: true,
+          };
+        }
+
+        const now = new Date().toISOString();
+        const conversation = loadConversation(conversation_id) ??
+          { id: conversation_id, messages: [], createdAt: now, updatedAt: now };
+        if (system !== undefined) {
+          conversation.system = system;
+        }
+
+        const { messages, dropped } = await buildConversationMessages(conversation, message, model, max_tokens, history);
+        if (imageUrls) {
+          // Images go with this turn only; the saved history keeps a note instead
+          messages[messages.length - 1] = { role: "user", content: userContent(message, imageUrls) };
+        }
+        const options = { maxTokens: max_tokens, temperature, signal: extra.signal, cache: cache ?? "auto" } as const;
+        const { model: used, result: { structured, text, cached }, failures } = await callWithFallbacks(models, extra.signal, async candidate => {
+          if (response_schema) {
+            const result = await paidStructuredCompletion("blockrun_chat", candidate, messages, response_schema, schema_retries, options);
+            return { structured: result, ...result };
+          }
+          const result = await paidCompletion("blockrun_chat", candidate, messages, { ...options, onText: progress?.onText });
+          return { structured: null, ...result };
+        });
+        await progress?.flush();
+
+        const imageNote = imageUrls ? `\n\n[${imageUrls.length} image${imageUrls.length === 1 ? "" : "s"} attached]` : "";
+        conversation.messages.push({ role: "user", content: message + imageNote }, { role: "assistant", content: text });
+        conversation.model = used;
+        conversation.updatedAt = new Date().toISOString();
+        saveConversation(conversation);
+
+        const note = (dropped > 0
+          ? `\n\n[Note: ${dropped} earlier message${dropped === 1 ? " was" : "s were"} ${history === "summarize" ? "summarized" : "left out"} to fit ${model}'s context window]`
+          : "") + attachedNote + fallbackNote(used, failures);
+        if (structured) {
+          return structuredReply(structured, note);
+        }
+        return {
+          content: [{ type: "text", text: text + note + (cached ? CACHED_NOTE : "") }],
+          ...(files.length > 0 && { structuredContent: { response: text, attachments: attachmentList(files) } }),
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // blockrun_smart - Smart model routing
+  server.registerTool(
+    "blockrun_smart",
+    {
+      description: `Smart model routing - automatically picks the best model based on your needs.
+
+Modes:
+- auto: Classify the prompt and pick for you (real-time → Grok search, code, math/reasoning, long context, simple chat), within your remaining budget
+- fast: Quickest response (Gemini Flash, GPT-4o-mini)
+- balanced: Good quality & speed (GPT-4o, Claude Sonnet)
+- powerful: Best quality (GPT-5.2, Claude Opus 4, o3)
+- cheap: Lowest cost (Gemini Flash, DeepSeek)
+- reasoning: Complex logic (o3, o1, DeepSeek Reasoner)
+
+Example: blockrun_smart({ mode: "fast", message: "Hello" })`,
+      inputSchema: {
+        mode: z.string().describe("Routing mode: auto, fast, balanced, powerful, cheap, reasoning, or a custom mode from your config"),
+        message: z.string().describe("Your message to the AI"),
+        system: z.string().optional().describe("Optional system prompt"),
+        max_tokens: z.number().optional().describe("Maximum tokens in response (default 1024, configurable)"),
+        cache: z.enum(["auto", "bypass", "always"]).optional().describe("Response cache (if enabled in config): 'auto' reuses identical temperature-0 calls, 'always' also caches temperature > 0, 'bypass' skips it"),
+        attachments: z.array(z.string()).optional().describe("Files to include in the prompt: paths, globs (src/**/*.ts), file:// or blockrun:// URIs"),
+      },
+      outputSchema: {
+        model_used: z.string().describe("The model that was used"),
+        response: z.string().describe("The AI response"),
+        cached: z.boolean().describe("Served from the response cache (nothing paid)"),
+        routing: z.object({
+          category: z.string().describe("Prompt category from local heuristics"),
+          signals: z.array(z.string()).describe("Heuristics that fired"),
+          tier: z.string().describe("Tier the category mapped to"),
+          candidates: z.array(z.string()).describe("Models considered, in order"),
+          skipped: z.array(z.object({ model: z.string(), reason: z.string() })),
+          reason: z.string().describe("Why this model was picked"),
+        }).optional().describe("Routing decision (auto mode only)"),
+        attachments: z.array(z.object({
+          source: z.string(),
+          bytes: z.number(),
+        })).optional().describe("Files included in the prompt"),
+      },
+    },
+    withSpendConfirmation(async ({ mode, message: question, system, max_tokens, cache, attachments }, extra) => {
+      const defaults = toolDefaults("blockrun_smart");
+      max_tokens ??= defaults.maxTokens;
+      if (mode !== "auto" && !getTier(mode)) {
+        return unknownTierError(mode);
+      }
+
+      let route: AutoRoute | null = null;
+      let files: Attachment[];
+      let message: string;
+      try {
+        files = attachments?.length ? await loadAttachments(attachments) : [];
+        message = withAttachments(question, files);
+        if (mode === "auto") {
+          route = await planAutoRoute(question, message, system, max_tokens);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+      const models = route ? route.models : getTier(mode)!;
+      const progress = createProgressRelay(extra);
+
+      // Try models in order until one succeeds; payment errors stop the chain
+      try {
+        const { model, result: { text: response, cached }, failures } = await callWithFallbacks(models, extra.signal, candidate =>
+          paidChat("blockrun_smart", candidate, message, {
+            system,
+            maxTokens: max_tokens,
+            temperature: defaults.temperature,
+            search: route?.search,
+            signal: extra.signal,
+            onText: progress?.onText,
+            cache: cache ?? "auto",
+          }));
+        await progress?.flush();
+        const routing = route && {
+          category: route.category,
+          signals: route.signals,
+          tier: route.tier,
+          candidates: route.models,
+          skipped: [...route.skipped, ...failures.map(f => ({ model: f.model, reason: f.error }))],
+          reason: failures.length === 0 ? route.reason : `${route.reason}; earlier candidates failed`,
+        };
+        const attachedNote = await describeAttachments(files, model, `${system || ""}${message}`, max_tokens);
+        const result = {
+          model_used: model,
+          response,
+          cached,
+          ...(routing && { routing }),
+          ...(files.length > 0 && { attachments: files.map(a => ({ source: a.source, bytes: a.bytes })) }),
+        };
+        return {
+          content: [{ type: "text", text: `[Used: ${model}${routing ? ` (auto: ${routing.category} → ${routing.tier})` : ""}${cached ? ", cached" : ""}]\n\n${response}${attachedNote}${fallbackNote(model, failures)}` }],
+          structuredContent: result,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // blockrun_compare - Side-by-side multi-model comparison
+  server.registerTool(
+    "blockrun_compare",
+    {
+      description: `Run one prompt through several models side by side and compare the answers.
+
+Pass a list of models, or a tier (fast, balanced, powerful, cheap, reasoning) to compare its models.
+Models run in parallel (up to 'concurrency' at a time). Each result includes latency, token usage and cost;
+a model that fails is reported without failing the whole comparison.
+
+Example: blockrun_compare({ message: "Explain CRDTs", models: ["openai/gpt-4o", "anthropic/claude-sonnet-4", "google/gemini-2.5-pro"] })`,
+      inputSchema: {
+        message: z.string().describe("The prompt to send to every model"),
+        models: z.array(z.string()).optional().describe("Model IDs to compare"),
+        tier: z.string().optional().describe("Compare all models in a routing tier, built-in or from your config (used if models is omitted)"),
+        system: z.string().optional().describe("Optional system prompt"),
+        max_tokens: z.number().optional().describe("Maximum tokens in each response (default 1024, configurable)"),
+        temperature: z.number().optional().describe("Creativity level 0-2"),
+        concurrency: z.number().int().min(1).max(16).optional().default(3).describe("Maximum models to call at once"),
+        cache: z.enum(["auto", "bypass", "always"]).optional().describe("Response cache (if enabled in config): 'auto' reuses identical temperature-0 calls, 'always' also caches temperature > 0, 'bypass' skips it"),
+      },
+      outputSchema: {
+        results: z.array(z.object({
+          model: z.string(),
+          ok: z.boolean(),
+          cached: z.boolean(),
+          response: z.string().nullable(),
+          error: z.string().nullable(),
+          latencyMs: z.number(),
+          inputTokens: z.number().nullable(),
+          outputTokens: z.number().nullable(),
+          cost: z.number(),
+        })),
+        totalCost: z.number(),
+      },
+    },
+    withSpendConfirmation(async ({ message, models, tier, system, max_tokens, temperature, concurrency, cache }, extra) => {
+      const defaults = toolDefaults("blockrun_compare");
+      max_tokens ??= defaults.maxTokens;
+      temperature ??= defaults.temperature;
+      if (!models?.length && tier && !getTier(tier)) {
+        return unknownTierError(tier);
+      }
+      const ids = models?.length ? [...new Set(models)] : tier ? [...getTier(tier)!] : [];
+      if (ids.length === 0) {
+        return {
+          content: [{ type: "text", text: "Error: Please provide a list of models or a tier to compare" }],
+          isError: true,
+        };
+      }
+
+      const results = await mapWithConcurrency(ids, concurrency, async model => {
+        const started = Date.now();
+        try {
+          const { text, usage, cost, cached } = await paidChat("blockrun_compare", model, message, {
+            system,
+            maxTokens: max_tokens,
+            temperature,
+            signal: extra.signal,
+            cache: cache ?? "auto",
+          });
+          return {
+            model,
+            ok: true,
+            cached,
+            response: text,
+            error: null,
+            latencyMs: Date.now() - started,
+            inputTokens: usage?.prompt_tokens ?? null,
+            outputTokens: usage?.completion_tokens ?? null,
+            cost,
+          };
+        } catch (error) {
+          return {
+            model,
+            ok: false,
+            cached: false,
+            response: null,
+            error: error instanceof Error ? error.message : String(error),
+            latencyMs: Date.now() - started,
+            inputTokens: null,
+            outputTokens: null,
+            cost: 0,
+          };
+        }
+      });
+
+      const totalCost = results.reduce((sum, r) => sum + r.cost, 0);
+      const table = [
+        "| Model | Status | Latency | Tokens (in/out) | Cost |",
+        "|-------|--------|---------|-----------------|------|",
+        ...results.map(r =>
+          `| ${r.model} | ${r.ok ? (r.cached ? "✅ cached" : "✅") : "❌"} | ${(r.latencyMs / 1000).toFixed(1)}s | ` +
+          `${r.inputTokens ?? "-"}/${r.outputTokens ?? "-"} | $${r.cost.toFixed(6)} |`
+        ),
+      ].join("\n");
+      const sections = results.map(r =>
+        `### ${r.model}\n\n${r.ok ? r.response : `Error: ${r.error}`}`
+      ).join("\n\n");
+
+      return {
+        content: [{ type: "text", text: `## Model Comparison\n\n${table}\n\nTotal cost: $${totalCost.toFixed(6)}\n\n${sections}` }],
+        structuredContent: { results, totalCost },
+        isError: results.every(r => !r.ok),
+      };
+    })
+  );
+
+  // blockrun_consensus - Ensemble answer judged and synthesized by a judge model
+  server.registerTool(
+    "blockrun_consensus",
+    {
+      description: `Get one high-confidence answer from several models. For high-stakes questions.
+
+The prompt is sent to N candidate models, then a judge model scores each answer against a rubric
+and writes a combined final answer. Returns every candidate's score, the judge's reasoning, and the
+total cost of all calls. Respects the session budget: if it runs out partway, the remaining calls are aborted.
+
+Example: blockrun_consensus({ message: "Is this migration safe to run online?", tier: "powerful" })`,
+      inputSchema: {
+        message: z.string().describe("The question to answer"),
+        models: z.array(z.string()).optional().describe("Candidate model IDs"),
+        tier: z.string().optional().default("balanced").describe("Use this tier's models as candidates, built-in or from your config (if models is omitted)"),
+        judge_model: z.string().optional().default(DEFAULT_JUDGE_MODEL).describe("Model that scores the answers and writes the final answer"),
+        rubric: z.string().optional().default("Factual accuracy, completeness, and clarity.").describe("What the judge should score answers on"),
+        system: z.string().optional().describe("Optional system prompt for the candidates"),
+        max_tokens: z.number().optional().describe("Maximum tokens in each candidate answer (default 1024, configurable)"),
+        concurrency: z.number().int().min(1).max(16).optional().default(3).describe("Maximum candidate models to call at once"),
+      },
+      outputSchema: {
+        candidates: z.array(z.object({
+          model: z.string(),
+          ok: z.boolean(),
+          response: z.string().nullable(),
+          error: z.string().nullable(),
+          score: z.number().nullable().describe("Judge's score, 0-10"),
+          notes: z.string().nullable().describe("Judge's notes on this answer"),
+          cost: z.number(),
+        })),
+        judge: z.object({
+          model: z.string(),
+          reasoning: z.string(),
+          cost: z.number(),
+        }).nullable(),
+        finalAnswer: z.string().nullable(),
+        totalCost: z.number(),
+      },
+    },
+    withSpendConfirmation(async ({ message, models, tier, judge_model, rubric, system, max_tokens, concurrency }, extra) => {
+      const defaults = toolDefaults("blockrun_consensus");
+      max_tokens ??= defaults.maxTokens;
+      if (!models?.length && !getTier(tier)) {
+        return unknownTierError(tier);
+      }
+      const ids = models?.length ? [...new Set(models)] : [...getTier(tier)!];
+
+      // Abort outstanding candidate calls when the budget runs out (or the client cancels)
+      const abort = new AbortController();
+      extra.signal.addEventListener("abort", () => abort.abort(), { once: true });
+      let budgetError: BudgetExceededError | null = null;
+
+      const candidates = await mapWithConcurrency(ids, concurrency, async model => {
+        const candidate = { model, ok: false, response: null as string | null, error: null as string | null, score: null as number | null, notes: null as string | null, cost: 0 };
+        if (abort.signal.aborted) {
+          candidate.error = budgetError ? "Skipped: session budget exhausted" : "Skipped: cancelled";
+          return candidate;
+        }
+        try {
+          const { text, cost } = await paidChat("blockrun_consensus", model, message, {
+            system,
+            maxTokens: max_tokens,
+            temperature: defaults.temperature,
+            signal: abort.signal,
+          });
+          return { ...candidate, ok: true, response: text, cost };
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            budgetError = budgetError ?? error;
+            abort.abort();
+          }
+          candidate.error = error instanceof Error ? error.message : String(error);
+          return candidate;
+        }
+      });
+
+      const answered = candidates.filter(c => c.ok);
+      let totalCost = candidates.reduce((sum, c) => sum + c.cost, 0);
+      const fail = (reason: string) => ({
+        content: [{ type: "text" as const, text: formatError(`${reason}\n\nCandidate cost so far: $${totalCost.toFixed(6)}`) }],
+        structuredContent: { candidates, judge: null, finalAnswer: null, totalCost },
+        isError: true,
+      });
+
+      if (budgetError) {
+        return fail((budgetError as BudgetExceededError).message);
+      }
+      if (answered.length === 0) {
+        return fail(`All candidate models failed: ${candidates.map(c => `${c.model}: ${c.error}`).join("; ")}`);
+      }
+
+      const judgePrompt = `Question:\n${message}\n\n` +
+        answered.map((c, i) => `--- Answer ${i + 1} ---\n${c.response}`).join("\n\n") +
+        `\n\nRubric: ${rubric}\n\n` +
+        `Score each answer from 0 to 10 against the rubric, explain your reasoning, then write the best possible final answer, ` +
+        `combining the strengths of the answers and correcting their mistakes.\n` +
+        `Respond with JSON only, in this shape:\n` +
+        `{"scores": [{"answer": 1, "score": 8, "notes": "..."}], "reasoning": "...", "final_answer": "..."}`;
+
+      let verdict: JudgeVerdict;
+      let judgeCost = 0;
+      try {
+        const { text, cost } = await paidChat("blockrun_consensus", judge_model, judgePrompt, {
+          system: "You are an impartial expert judge comparing answers from different AI models. The answers are anonymized.",
+          maxTokens: Math.max(max_tokens * 2, 2048),
+          temperature: 0,
+          signal: extra.signal,
+        });
+        judgeCost = cost;
+        totalCost += cost;
+        verdict = parseJudgeVerdict(text);
+      } catch (error) {
+        return fail(`Judge model ${judge_model} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      for (const s of verdict.scores) {
+        const candidate = answered[s.answer - 1];
+        if (candidate) {
+          candidate.score = s.score;
+          candidate.notes = s.notes ?? null;
+        }
+      }
+
+      const scoreLines = candidates.map(c =>
+        `- ${c.model}: ${c.ok ? `${c.score ?? "?"}/10${c.notes ? ` - ${c.notes}` : ""}` : `failed (${c.error})`}`
+      ).join("\n");
+
+      return {
+        content: [{ type: "text", text: `## Consensus Answer\n\n${verdict.finalAnswer}\n\n## Scores (judge: ${judge_model})\n\n${scoreLines}\n\n## Judge's Reasoning\n\n${verdict.reasoning}\n\nTotal cost: $${totalCost.toFixed(6)} (${answered.length + 1} calls)` }],
+        structuredContent: {
+          candidates,
+          judge: { model: judge_model, reasoning: verdict.reasoning, cost: judgeCost },
+          finalAnswer: verdict.finalAnswer,
+          totalCost,
+        },
+      };
+    })
+  );
+
+  // blockrun_batch - Run a JSONL file of prompts
+  server.registerTool(
+    "blockrun_batch",
+    {
+      description: `Run many prompts from a local JSONL file, e.g. for evals, without one tool call per prompt.
+
+Each input line is a JSON object: { "id"?, "model"?, "message", "system"?, "max_tokens"?, "temperature"? }.
+Lines without an id use their line number; lines without a model use the model argument.
+
+Requests run with limited concurrency under a hard total cost cap; once the next request could
+exceed it, no more are started. Each result is appended to the output JSONL file as it finishes,
+with cost and latency. Rerunning with the same output file skips lines that already succeeded,
+so an interrupted batch can be resumed. Progress is reported with MCP progress notifications.`,
+      inputSchema: {
+        input: z.string().describe("Path to the input JSONL file"),
+        output: z.string().optional().describe("Path to the output JSONL file (default: <input>.results.jsonl)"),
+        model: z.string().optional().describe("Model for lines that don't name one"),
+        max_cost: z.number().positive().describe("Hard cap on total USD spent by this run"),
+        concurrency: z.number().int().min(1).max(16).optional().default(4).describe("Maximum requests in flight"),
+      },
+      outputSchema: {
+        output: z.string(),
+        total: z.number().describe("Request lines in the input"),
+        skipped: z.number().describe("Lines that already had a successful result"),
+        succeeded: z.number(),
+        failed: z.number(),
+        notRun: z.number().describe("Lines left for a later run (cost cap reached or cancelled)"),
+        totalCost: z.number(),
+      },
+    },
+    withSpendConfirmation(async ({ input, output, model: defaultModel, max_cost, concurrency }, extra) => {
+      // Input and output are files on the server host, which HTTP clients may not touch
+      if (clientScope.getStore()) {
+        return {
+          content: [{ type: "text", text: "Error: blockrun_batch reads and writes files on the server, so it isn't available over HTTP" }],
+          isError: true,
+        };
+      }
+
+      const inputFile = path.resolve(expandHome(input));
+      const outputFile = output ? path.resolve(expandHome(output)) : inputFile.replace(/(\.jsonl)?$/, ".results.jsonl");
+      if (!fs.existsSync(inputFile)) {
+        return {
+          content: [{ type: "text", text: `Error: Input file not found: ${inputFile}` }],
+          isError: true,
+        };
+      }
+
+      const lines = fs.readFileSync(inputFile, "utf-8").split("\n")
+        .map((text, i) => ({ text, line: i + 1 }))
+        .filter(l => l.text.trim());
+      const done = readCompletedBatchIds(outputFile);
+      const pending = lines
+        .map(l => ({ ...l, id: batchLineId(l.text, l.line) }))
+        .filter(l => !done.has(l.id));
+
+      const cap: BudgetState = { limit: max_cost, spent: 0, calls: 0, reserved: 0 };
+      const progressToken = extra._meta?.progressToken;
+      let finished = 0, succeeded = 0, failed = 0;
+      let stopReason: string | null = null;
+
+      const record = (result: BatchResult) => {
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+        fs.appendFileSync(outputFile, JSON.stringify(result) + "\n");
+        finished++;
+        if (result.ok) succeeded++; else failed++;
+        if (progressToken !== undefined) {
+          extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: finished, total: pending.length, message: `${finished}/${pending.length} done, $${cap.spent.toFixed(4)} spent` },
+          }).catch(() => {}); // Progress is best-effort
+        }
+      };
+
+      await mapWithConcurrency(pending, concurrency, async ({ text, line, id }) => {
+        if (stopReason) return;
+        if (extra.signal.aborted) {
+          stopReason = "cancelled";
+          return;
+        }
+
+        const started = Date.now();
+        const base = { id, line, model: null, response: null, cost: 0, inputTokens: null, outputTokens: null };
+        let request: z.infer<typeof BatchRequestSchema>;
+        try {
+          const parsed = BatchRequestSchema.safeParse(JSON.parse(text));
+          if (!parsed.success) throw new Error(z.prettifyError(parsed.error));
+          request = parsed.data;
+        } catch (error) {
+          record({ ...base, ok: false, error: `Invalid request: ${error instanceof Error ? error.message : String(error)}`, latencyMs: 0 });
+          return;
+        }
+
+        const model = request.model ?? defaultModel;
+        if (!model) {
+          record({ ...base, ok: false, error: "No model on this line and no default model given", latencyMs: 0 });
+          return;
+        }
+
+        try {
+          const { text: response, usage, cost } = await paidChat("blockrun_batch", model, request.message, {
+            system: request.system,
+            maxTokens: request.max_tokens ?? toolDefaults("blockrun_chat").maxTokens,
+            temperature: request.temperature,
+            signal: extra.signal,
+            cap,
+          });
+          record({
+            ...base,
+            model,
+            ok: true,
+            response,
+            error: null,
+            cost,
+            latencyMs: Date.now() - started,
+            inputTokens: usage?.prompt_tokens ?? null,
+            outputTokens: usage?.completion_tokens ?? null,
+          });
+        } catch (error) {
+          // Cap, budget or cancellation: leave this and later lines for a rerun
+          if (error instanceof BudgetExceededError || error instanceof SpendDeclinedError || extra.signal.aborted) {
+            stopReason ??= error instanceof Error ? error.message : String(error);
+            return;
+          }
+          record({ ...base, model, ok: false, error: error instanceof Error ? error.message : String(error), latencyMs: Date.now() - started });
+        }
+      });
+
+      const notRun = pending.length - finished;
+      const summary = {
+        output: outputFile,
+        total: lines.length,
+        skipped: lines.length - pending.length,
+        succeeded,
+        failed,
+        notRun,
+        totalCost: cap.spent,
+      };
+
+      const text = `BlockRun Batch
+==============
 
-// blockrun_chat - Main chat tool
-server.registerTool(
-  "blockrun_chat",
-  {
-    description: `Chat with any AI model via BlockRun. Supports 30+ models including GPT-5, Claude Opus 4, Gemini 3, and more.
-Pay-per-request with x402 micropayments - no API keys needed.
+Input: ${inputFile}
+Output: ${outputFile}
 
-Popular models:
-- openai/gpt-5.2: Most capable OpenAI model
-- anthropic/claude-opus-4: Best for complex reasoning
-- anthropic/claude-sonnet-4: Fast & capable (recommended)
-- google/gemini-2.5-pro: Great for long context
-- deepseek/deepseek-chat: Very affordable
+Lines: ${summary.total} (${summary.skipped} already done)
+Succeeded: ${succeeded}
+Failed: ${failed}
+Not run: ${notRun}
+Cost: $${cap.spent.toFixed(6)} of $${max_cost.toFixed(2)} cap` +
+        (stopReason ? `\n\nStopped early: ${stopReason}\nRerun with the same output file to continue.` : "");
 
-Use blockrun_models to see all available models with pricing.`,
-    inputSchema: {
-      model: z.string().describe("Model ID (e.g., 'anthropic/claude-sonnet-4', 'openai/gpt-4o'). Use blockrun_models to list all."),
-      message: z.string().describe("Your message to the AI"),
-      system: z.string().optional().describe("Optional system prompt to set context/behavior"),
-      max_tokens: z.number().optional().default(1024).describe("Maximum tokens in response"),
-      temperature: z.number().optional().default(1).describe("Creativity level 0-2"),
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: summary,
+      };
+    })
+  );
+
+  // blockrun_models - List available models
+  server.registerTool(
+    "blockrun_models",
+    {
+      description: "List all available AI models with pricing. Use this to discover models and compare costs.",
+      inputSchema: {
+        category: z.enum(["all", "chat", "reasoning", "image", "embedding"]).optional().default("all").describe("Filter by category"),
+        provider: z.string().optional().describe("Filter by provider (e.g., 'openai', 'anthropic', 'google')"),
+      },
+      outputSchema: {
+        count: z.number().describe("Number of models returned"),
+        models: z.array(z.object({
+          id: z.string(),
+          name: z.string().optional(),
+          inputPrice: z.number().optional(),
+          outputPrice: z.number().optional(),
+        })).describe("List of available models"),
+      },
     },
-  },
-  async ({ model, message, system, max_tokens, temperature }) => {
-    try {
-      const llm = getClient();
-      const response = await llm.chat(model, message, {
-        system,
-        maxTokens: max_tokens,
-        temperature,
+    async ({ category, provider }) => {
+      let models = await getModels();
+
+      // Filter by provider
+      if (provider) {
+        const p = provider.toLowerCase();
+        models = models.filter(m => m.id.toLowerCase().startsWith(p + "/"));
+      }
+
+      // Filter by category
+      if (category && category !== "all") {
+        if (category === "image") {
+          models = models.filter(isImageModel);
+        } else if (category === "reasoning") {
+          models = models.filter(m =>
+            m.id.includes("/o1") || m.id.includes("/o3") || m.id.includes("reasoner")
+          );
+        } else if (category === "embedding") {
+          models = models.filter(m => m.id.includes("embed"));
+        }
+      }
+
+      // Format output
+      const lines = models.map(m => {
+        const input = m.inputPrice ? `$${m.inputPrice}/M in` : "";
+        const output = m.outputPrice ? `$${m.outputPrice}/M out` : "";
+        const pricing = [input, output].filter(Boolean).join(", ");
+        return `- ${m.id}: ${m.name || ""} ${pricing ? `(${pricing})` : ""}`;
       });
-      return { content: [{ type: "text", text: response }] };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      const structuredModels = models.map(m => ({
+        id: m.id,
+        name: m.name,
+        inputPrice: m.inputPrice,
+        outputPrice: m.outputPrice,
+      }));
+
       return {
-        content: [{ type: "text", text: formatError(errorMessage) }],
-        isError: true,
+        content: [{ type: "text", text: `Available models (${models.length}):\n\n${lines.join("\n")}` }],
+        structuredContent: { count: models.length, models: structuredModels },
       };
     }
-  }
-);
+  );
 
-// blockrun_smart - Smart model routing
-server.registerTool(
-  "blockrun_smart",
-  {
-    description: `Smart model routing - automatically picks the best model based on your needs.
+  // blockrun_estimate - Pre-flight cost estimation
+  server.registerTool(
+    "blockrun_estimate",
+    {
+      description: `Estimate what a chat call will cost before running it. Takes the same inputs as blockrun_chat.
 
-Modes:
-- fast: Quickest response (Gemini Flash, GPT-4o-mini)
-- balanced: Good quality & speed (GPT-4o, Claude Sonnet)
-- powerful: Best quality (GPT-5.2, Claude Opus 4, o3)
-- cheap: Lowest cost (Gemini Flash, DeepSeek)
-- reasoning: Complex logic (o3, o1, DeepSeek Reasoner)
+Input tokens are counted locally and priced with the live model catalog. Returns a min/max USD range
+(min = empty response, max = a full max_tokens response) and checks it against your remaining session
+budget and last known wallet balance.
 
-Example: blockrun_smart({ mode: "fast", message: "Hello" })`,
-    inputSchema: {
-      mode: z.enum(["fast", "balanced", "powerful", "cheap", "reasoning"]).describe("Routing mode"),
-      message: z.string().describe("Your message to the AI"),
-      system: z.string().optional().describe("Optional system prompt"),
-      max_tokens: z.number().optional().default(1024).describe("Maximum tokens in response"),
-    },
-    outputSchema: {
-      model_used: z.string().describe("The model that was used"),
-      response: z.string().describe("The AI response"),
+Pass several models to rank them by estimated cost and pick the cheapest one that fits.`,
+      inputSchema: {
+        model: z.string().optional().describe("Model ID to estimate (e.g., 'anthropic/claude-sonnet-4')"),
+        models: z.array(z.string()).optional().describe("Several model IDs to estimate and rank by cost"),
+        message: z.string().describe("The message you plan to send"),
+        system: z.string().optional().describe("Optional system prompt"),
+        max_tokens: z.number().optional().describe("Maximum tokens in response (default: blockrun_chat's default)"),
+      },
+      outputSchema: {
+        estimates: z.array(z.object({
+          model: z.string(),
+          priced: z.boolean().describe("False if the model isn't in the catalog"),
+          inputTokens: z.number().nullable(),
+          maxOutputTokens: z.number(),
+          minCost: z.number().nullable(),
+          maxCost: z.number().nullable(),
+          fitsBudget: z.boolean().nullable().describe("Whether the max cost fits the remaining session budget (null = no limit)"),
+          fitsBalance: z.boolean().nullable().describe("Whether the max cost fits the last known balance (null = unknown)"),
+        })).describe("Estimates, cheapest first"),
+        remainingBudget: z.number().nullable(),
+        lastKnownBalance: z.number().nullable(),
+        balanceCheckedAt: z.string().nullable(),
+      },
     },
-  },
-  async ({ mode, message, system, max_tokens }) => {
-    const models = MODEL_TIERS[mode as RoutingMode];
+    async ({ model, models, message, system, max_tokens }) => {
+      max_tokens ??= toolDefaults("blockrun_chat").maxTokens;
+      const ids = [...new Set([...(model ? [model] : []), ...(models ?? [])])];
+      if (ids.length === 0) {
+        return {
+          content: [{ type: "text", text: "Error: Please provide a model or a list of models to estimate" }],
+          isError: true,
+        };
+      }
 
-    // Try models in order until one succeeds
-    let lastError: Error | null = null;
-    for (const model of models) {
+      const prompt = `${system || ""}${message}`;
+      const { remaining } = checkBudget();
+      const balance = lastKnownBalance?.balance ?? null;
+
+      let estimates;
       try {
-        const llm = getClient();
-        const response = await llm.chat(model, message, {
-          system,
-          maxTokens: max_tokens,
-        });
-        const result = { model_used: model, response };
+        estimates = await Promise.all(ids.map(async id => {
+          const estimate = await priceChat(id, prompt, max_tokens);
+          return {
+            model: id,
+            priced: estimate !== null,
+            inputTokens: estimate?.inputTokens ?? null,
+            maxOutputTokens: max_tokens,
+            minCost: estimate?.minCost ?? null,
+            maxCost: estimate?.maxCost ?? null,
+            fitsBudget: estimate && remaining !== null ? estimate.maxCost <= remaining : null,
+            fitsBalance: estimate && balance !== null ? estimate.maxCost <= balance : null,
+          };
+        }));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
         return {
-          content: [{ type: "text", text: `[Used: ${model}]\n\n${response}` }],
-          structuredContent: result,
+          content: [{ type: "text", text: formatError(`Could not load model pricing: ${errorMessage}`) }],
+          isError: true,
         };
-      } catch (error) {
-        lastError = error as Error;
-        continue;
       }
-    }
 
-    const errorMessage = lastError?.message || "All models failed";
-    return {
-      content: [{ type: "text", text: formatError(errorMessage) }],
-      isError: true,
-    };
-  }
-);
-
-// blockrun_models - List available models
-server.registerTool(
-  "blockrun_models",
-  {
-    description: "List all available AI models with pricing. Use this to discover models and compare costs.",
-    inputSchema: {
-      category: z.enum(["all", "chat", "reasoning", "image", "embedding"]).optional().default("all").describe("Filter by category"),
-      provider: z.string().optional().describe("Filter by provider (e.g., 'openai', 'anthropic', 'google')"),
-    },
-    outputSchema: {
-      count: z.number().describe("Number of models returned"),
-      models: z.array(z.object({
-        id: z.string(),
-        name: z.string().optional(),
-        inputPrice: z.number().optional(),
-        outputPrice: z.number().optional(),
-      })).describe("List of available models"),
-    },
-  },
-  async ({ category, provider }) => {
-    const llm = getClient();
+      // Cheapest first, unpriced models last
+      estimates.sort((a, b) => (a.maxCost ?? Infinity) - (b.maxCost ?? Infinity));
 
-    // Cache models for 5 minutes
-    if (!cachedModels) {
-      cachedModels = await llm.listModels();
-      setTimeout(() => { cachedModels = null; }, 5 * 60 * 1000);
-    }
+      const lines = estimates.map((e, i) => {
+        if (!e.priced) return `${i + 1}. ${e.model}: no pricing in catalog (check the model ID with blockrun_models)`;
+        const warnings = [
+          e.fitsBudget === false ? "exceeds remaining budget" : "",
+          e.fitsBalance === false ? "exceeds wallet balance" : "",
+        ].filter(Boolean);
+        return `${i + 1}. ${e.model}: $${e.minCost!.toFixed(6)} - $${e.maxCost!.toFixed(6)}` +
+          (warnings.length ? `  ⚠️  ${warnings.join(", ")}` : "");
+      });
 
-    let models = cachedModels;
+      const text = `BlockRun Cost Estimate
+======================
 
-    // Filter by provider
-    if (provider) {
-      const p = provider.toLowerCase();
-      models = models.filter(m => m.id.toLowerCase().startsWith(p + "/"));
-    }
+Input: ~${estimates.find(e => e.priced)?.inputTokens ?? estimateTokens(prompt)} tokens, up to ${max_tokens} output tokens
 
-    // Filter by category
-    if (category && category !== "all") {
-      if (category === "image") {
-        models = models.filter(m =>
-          m.id.includes("dall-e") || m.id.includes("flux") || m.id.includes("banana")
-        );
-      } else if (category === "reasoning") {
-        models = models.filter(m =>
-          m.id.includes("/o1") || m.id.includes("/o3") || m.id.includes("reasoner")
-        );
-      } else if (category === "embedding") {
-        models = models.filter(m => m.id.includes("embed"));
-      }
-    }
+${lines.join("\n")}
 
-    // Format output
-    const lines = models.map(m => {
-      const input = m.inputPrice ? `$${m.inputPrice}/M in` : "";
-      const output = m.outputPrice ? `$${m.outputPrice}/M out` : "";
-      const pricing = [input, output].filter(Boolean).join(", ");
-      return `- ${m.id}: ${m.name || ""} ${pricing ? `(${pricing})` : ""}`;
-    });
+Remaining budget: ${remaining !== null ? `$${remaining.toFixed(4)}` : "Unlimited"}
+Last known balance: ${lastKnownBalance ? `$${lastKnownBalance.balance.toFixed(6)} USDC (checked ${lastKnownBalance.checkedAt})` : "Unknown (run blockrun_balance)"}
 
-    const structuredModels = models.map(m => ({
-      id: m.id,
-      name: m.name,
-      inputPrice: m.inputPrice,
-      outputPrice: m.outputPrice,
-    }));
+Estimates use ~4 characters per token; actual prices come from the x402 payment.`;
 
-    return {
-      content: [{ type: "text", text: `Available models (${models.length}):\n\n${lines.join("\n")}` }],
-      structuredContent: { count: models.length, models: structuredModels },
-    };
-  }
-);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          estimates,
+          remainingBudget: remaining,
+          lastKnownBalance: balance,
+          balanceCheckedAt: lastKnownBalance?.checkedAt ?? null,
+        },
+      };
+    }
+  );
+
+  // blockrun_image - Generate, edit and vary images
+  server.registerTool(
+    "blockrun_image",
+    {
+      description: `Generate images using AI models, or edit and vary an existing image.
+Paid per image with x402 from your wallet, like chat. Images are returned inline and saved locally
+(default ~/.blockrun/images, override with save_dir or BLOCKRUN_IMAGE_DIR) with a .json sidecar
+recording the prompt, model and cost.
+
+Modes:
+- generate: Text to image (default). Set n for several images at once.
+- edit: Change a source image as described in the prompt, optionally only inside a mask
+- variation: New takes on a source image (no prompt needed)
 
-// blockrun_image - Generate images
-server.registerTool(
-  "blockrun_image",
-  {
-    description: `Generate images using AI models. Supports DALL-E 3, Flux, and Nano Banana.
+Source images and masks can be local paths or base64. Available models and which modes they
+support come from the model catalog (blockrun_models with category "image").
 
 Models:
 - openai/dall-e-3: High quality, creative ($0.04-0.08/image)
 - together/flux-schnell: Fast generation ($0.02/image)
-- google/nano-banana: Experimental Google model`,
-    inputSchema: {
-      prompt: z.string().describe("Description of the image to generate"),
-      model: z.enum(["openai/dall-e-3", "together/flux-schnell", "google/nano-banana"]).optional().default("openai/dall-e-3").describe("Image model"),
-      size: z.enum(["1024x1024", "1792x1024", "1024x1792"]).optional().default("1024x1024").describe("Image size"),
-      quality: z.enum(["standard", "hd"]).optional().default("standard").describe("Quality level for DALL-E 3"),
-    },
-    outputSchema: {
-      url: z.string().describe("URL of the generated image"),
-      prompt: z.string().describe("The prompt used"),
-      model: z.string().describe("The model used"),
+- google/nano-banana: Experimental Google model, supports edits`,
+      inputSchema: {
+        prompt: z.string().optional().describe("Description of the image to generate, or of the edit to make"),
+        model: z.string().optional().default("openai/dall-e-3").describe("Image model ID (see blockrun_models with category 'image')"),
+        size: z.string().optional().default("1024x1024").describe("Image size, e.g. 1024x1024, 1792x1024, 1024x1792"),
+        quality: z.enum(["standard", "hd"]).optional().default("standard").describe("Quality level for DALL-E 3"),
+        n: z.number().int().min(1).max(10).optional().default(1).describe("Number of images to generate"),
+        mode: z.enum(["generate", "edit", "variation"]).optional().describe("Defaults to 'edit' with a source image and prompt, 'variation' with only a source image, else 'generate'"),
+        source_image: z.string().optional().describe("Image to edit or vary: local path (not over HTTP), data URL or base64"),
+        mask: z.string().optional().describe("Edit mask (transparent areas are edited): local path (not over HTTP), data URL or base64"),
+        save_dir: z.string().optional().describe("Directory to save images in (default ~/.blockrun/images, ignored over HTTP)"),
+      },
+      outputSchema: {
+        url: z.string().nullable().describe("URL of the first image (may expire)"),
+        prompt: z.string().nullable().describe("The prompt used"),
+        model: z.string().describe("The model used"),
+        mode: z.string().describe("generate, edit or variation"),
+        path: z.string().nullable().describe("Local copy of the first image"),
+        metadataPath: z.string().nullable().describe("Sidecar JSON of the first image"),
+        images: z.array(z.object({
+          url: z.string().nullable(),
+          path: z.string().nullable(),
+          metadataPath: z.string().nullable(),
+        })).describe("Every image returned"),
+        cost: z.number().describe("USD paid"),
+      },
     },
-  },
-  async ({ prompt, model, size, quality }) => {
-    const apiUrl = "https://blockrun.ai/api/v1/images/generations";
-
-    const body = {
-      model,
-      prompt,
-      size,
-      quality,
-      n: 1,
-    };
+    withSpendConfirmation(async ({ prompt, model, size, quality, n, mode, source_image, mask, save_dir }) => {
+      const imageMode: ImageMode = mode ?? (source_image ? (prompt ? "edit" : "variation") : "generate");
+      const fail = (message: string) => ({
+        content: [{ type: "text" as const, text: formatError(message) }],
+        isError: true,
+      });
 
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body),
-    });
+      if (imageMode !== "variation" && !prompt) {
+        return fail(`A prompt is required for ${imageMode} mode`);
+      }
+      if (imageMode !== "generate" && !source_image) {
+        return fail(`A source_image is required for ${imageMode} mode`);
+      }
 
-    if (response.status === 402) {
-      return {
-        content: [{ type: "text", text: `Image generation requires payment. Please ensure your wallet has USDC on Base.\n\nTo generate "${prompt}" with ${model}, the approximate cost is $0.04-0.08 per image.` }],
-        isError: true,
-      };
-    }
+      // Check the model against the catalog (skipped if the catalog can't be loaded)
+      let info: ImageModelInfo | undefined;
+      let catalogLoaded = false;
+      try {
+        const catalog = await getModels() as ImageModelInfo[];
+        catalogLoaded = true;
+        info = catalog.find(m => m.id === model);
+      } catch {
+        // Let the API validate the model instead
+      }
+      if (catalogLoaded) {
+        if (!info || !isImageModel(info)) {
+          return fail(`${model} is not an image model in the catalog. Use blockrun_models with category "image" to list them.`);
+        }
+        if (!imageModes(info).includes(imageMode)) {
+          return fail(`${model} does not support ${imageMode} (supports: ${imageModes(info).join(", ")})`);
+        }
+        if (info.supportedSizes?.length && !info.supportedSizes.includes(size)) {
+          return fail(`${model} does not support size ${size} (supports: ${info.supportedSizes.join(", ")})`);
+        }
+      }
+
+      const body: Record<string, unknown> = { model, size, n };
+      if (prompt) body.prompt = prompt;
+      if (imageMode === "generate") body.quality = quality;
+      try {
+        if (source_image) body.image = loadImageInput(source_image);
+        if (mask && imageMode === "edit") body.mask = loadImageInput(mask);
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : String(error));
+      }
+
+      const endpoint = { generate: "/v1/images/generations", edit: "/v1/images/edits", variation: "/v1/images/variations" }[imageMode];
+      const perImage = info?.pricePerImage ?? IMAGE_COST_ESTIMATES[model] ?? DEFAULT_CALL_ESTIMATE;
+
+      let result: PaidResult<{ data?: GeneratedImage[] }>;
+      try {
+        result = await paidRequest(endpoint, body, {
+          tool: "blockrun_image",
+          model,
+          estimate: perImage * n,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return fail(`Image ${imageMode} failed: ${errorMessage}`);
+      }
+
+      const generated = (result.data.data ?? []).filter(image => image.url || image.b64_json);
+      if (generated.length === 0) {
+        return fail("No image in response");
+      }
+
+      // The images are paid for - a failed download or save shouldn't hide the URLs
+      const images: Array<{ url: string | null; path: string | null; metadataPath: string | null }> = [];
+      const inline: Array<{ type: "image"; data: string; mimeType: string }> = [];
+      const warnings: string[] = [];
+      const createdAt = new Date().toISOString();
+      const imageDir = clientScope.getStore() ? storeDir(IMAGE_DIR) : save_dir || IMAGE_DIR;
+      for (const [i, image] of generated.entries()) {
+        const url = image.url && !image.url.startsWith("data:") ? image.url : null;
+        let downloaded: { data: Buffer; mimeType: string } | null = null;
+        let saved: { path: string; metadataPath: string } | null = null;
+        try {
+          downloaded = await downloadImage(image);
+          inline.push({ type: "image", data: downloaded.data.toString("base64"), mimeType: downloaded.mimeType });
+          saved = saveImage(imageDir, downloaded.data, downloaded.mimeType, {
+            prompt: prompt ?? "",
+            revisedPrompt: image.revised_prompt,
+            model,
+            mode: imageMode,
+            size,
+            quality: imageMode === "generate" ? quality : undefined,
+            source: source_image && !source_image.startsWith("data:") && source_image.length < 1024 ? source_image : undefined,
+            index: i + 1,
+            count: generated.length,
+            cost: result.cost / generated.length,
+            batchCost: result.cost,
+            paymentRef: result.paymentRef,
+            url,
+            createdAt,
+          });
+        } catch (error) {
+          warnings.push(`Image ${i + 1}: could not ${downloaded ? "save" : "download"}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        images.push({ url, path: saved?.path ?? null, metadataPath: saved?.metadataPath ?? null });
+      }
+
+      const listing = images.map((image, i) =>
+        `${images.length > 1 ? `${i + 1}. ` : ""}${[image.url && `URL: ${image.url}`, image.path && `Saved: ${image.path}`].filter(Boolean).join("\n   ")}`
+      ).join("\n");
+      const text = `${images.length} image${images.length === 1 ? "" : "s"} ${imageMode === "generate" ? "generated" : imageMode === "edit" ? "edited" : "varied"} successfully!\n\n` +
+        `${listing}\n\n` +
+        (prompt ? `Prompt: ${prompt}\n` : "") +
+        `Model: ${model}\nCost: $${result.cost.toFixed(4)}` +
+        (warnings.length ? `\n\n⚠️  ${warnings.join("\n⚠️  ")}` : "");
 
-    if (!response.ok) {
       return {
-        content: [{ type: "text", text: formatError(`Image generation failed: ${response.status}`) }],
-        isError: true,
+        content: [{ type: "text", text }, ...inline],
+        structuredContent: {
+          url: images[0].url,
+          prompt: prompt ?? null,
+          model,
+          mode: imageMode,
+          path: images[0].path,
+          metadataPath: images[0].metadataPath,
+          images,
+          cost: result.cost,
+        },
       };
-    }
+    })
+  );
 
-    const data = await response.json() as { data?: Array<{ url?: string }> };
-    const imageUrl = data.data?.[0]?.url;
+  // blockrun_embed - Embedding vectors for texts
+  server.registerTool(
+    "blockrun_embed",
+    {
+      description: `Get embedding vectors for one or more texts. Paid per call with x402, like chat.
 
-    if (!imageUrl) {
-      return {
-        content: [{ type: "text", text: formatError("No image URL in response") }],
+Use blockrun_models with category "embedding" to see available embedding models.
+To store and search embeddings locally, use blockrun_index instead.`,
+      inputSchema: {
+        texts: z.array(z.string()).min(1).max(2048).describe("Texts to embed"),
+        model: z.string().optional().default(DEFAULT_EMBEDDING_MODEL).describe("Embedding model ID"),
+      },
+      outputSchema: {
+        model: z.string(),
+        dimensions: z.number(),
+        embeddings: z.array(z.array(z.number())).describe("One vector per text, in order"),
+        cost: z.number().describe("USD paid"),
+      },
+    },
+    withSpendConfirmation(async ({ texts, model }, extra) => {
+      try {
+        const { vectors, cost } = await paidEmbed("blockrun_embed", model, texts, extra.signal);
+        const result = { model, dimensions: vectors[0]?.length ?? 0, embeddings: vectors };
+        return {
+          content: [{
+            type: "text",
+            text: `${vectors.length} embedding${vectors.length === 1 ? "" : "s"} from ${model} ` +
+              `(${result.dimensions} dimensions, $${cost.toFixed(6)})\n\n${JSON.stringify(vectors)}`,
+          }],
+          structuredContent: { ...result, cost },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // blockrun_index - Local semantic index over BlockRun embeddings
+  server.registerTool(
+    "blockrun_index",
+    {
+      description: `A local vector index for cheap retrieval over your own documents.
+
+Documents are embedded with BlockRun (paid, like blockrun_embed) and stored on disk in named
+collections under ~/.blockrun/index. Queries embed only the query text and rank stored documents
+by cosine similarity locally.
+
+Actions:
+- add: Embed documents and add them to a collection (created on first add; same id replaces)
+- query: Find the documents most similar to a query
+- delete: Delete documents by id, or the whole collection if no ids are given
+- list: Show all collections`,
+      inputSchema: {
+        action: z.enum(["add", "query", "delete", "list"]).describe("Index action to perform"),
+        collection: z.string().optional().describe("Collection name (required except for list)"),
+        documents: z.array(z.object({
+          id: z.string().optional().describe("Document id (generated if omitted)"),
+          text: z.string().describe("Document text"),
+          metadata: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional().describe("Stored and returned with query results"),
+        })).optional().describe("Documents to add (add only)"),
+        query: z.string().optional().describe("Text to search for (query only)"),
+        top_k: z.number().int().min(1).optional().default(5).describe("Number of results (query only)"),
+        ids: z.array(z.string()).optional().describe("Document ids to delete (delete only)"),
+        model: z.string().optional().describe(`Embedding model for a new collection (default ${DEFAULT_EMBEDDING_MODEL}); existing collections keep theirs`),
+      },
+    },
+    withSpendConfirmation(async ({ action, collection: name, documents, query, top_k, ids, model }, extra) => {
+      const fail = (message: string) => ({
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
         isError: true,
-      };
-    }
+      });
 
-    return {
-      content: [{ type: "text", text: `Image generated successfully!\n\nURL: ${imageUrl}\n\nPrompt: ${prompt}\nModel: ${model}` }],
-      structuredContent: { url: imageUrl, prompt, model: model! },
-    };
-  }
-);
-
-// blockrun_wallet - Get wallet info
-server.registerTool(
-  "blockrun_wallet",
-  {
-    description: "Get information about your BlockRun wallet address. Shows address, network, and quick funding options.",
-    inputSchema: {},
-    outputSchema: {
-      address: z.string().describe("Wallet address"),
-      network: z.string().describe("Network name"),
-      chainId: z.number().describe("Chain ID"),
-      currency: z.string().describe("Currency"),
-      isNew: z.boolean().describe("Whether this is a newly created wallet"),
-      basescanUrl: z.string().describe("Link to view on Basescan"),
+      if (action === "list") {
+        const collections = listCollections();
+        const lines = collections.map(c =>
+          `- ${c.name}: ${c.items.length} documents, ${c.model} (${c.dimensions} dims, updated ${c.updatedAt})`
+        );
+        return {
+          content: [{ type: "text", text: collections.length ? `Collections (${collections.length}):\n\n${lines.join("\n")}` : "No collections." }],
+        };
+      }
+
+      if (!name || !isValidCollectionName(name)) {
+        return fail(name ? "Collection names may only contain letters, numbers, '_', '-' and '.'" : "Please provide a collection name");
+      }
+
+      try {
+        const existing = loadCollection(name);
+
+        switch (action) {
+          case "add": {
+            if (!documents?.length) {
+              return fail("Please provide documents to add");
+            }
+            if (existing && model && model !== existing.model) {
+              return fail(`Collection '${name}' uses ${existing.model}; vectors from ${model} can't be mixed in`);
+            }
+
+            const embeddingModel = existing?.model ?? model ?? DEFAULT_EMBEDDING_MODEL;
+            const { vectors, cost } = await paidEmbed("blockrun_index", embeddingModel, documents.map(d => d.text), extra.signal);
+            const dimensions = vectors[0]?.length ?? 0;
+            if (existing && dimensions !== existing.dimensions) {
+              return fail(`${embeddingModel} returned ${dimensions}-dimension vectors but '${name}' holds ${existing.dimensions}-dimension vectors`);
+            }
+
+            const now = new Date().toISOString();
+            const collection = existing ?? { name, model: embeddingModel, dimensions, items: [], createdAt: now, updatedAt: now };
+            const added = documents.map((d, i): IndexItem => ({
+              id: d.id ?? crypto.randomUUID(),
+              text: d.text,
+              ...(d.metadata && { metadata: d.metadata }),
+              vector: vectors[i],
+            }));
+            const addedIds = new Set(added.map(item => item.id));
+            collection.items = [...collection.items.filter(item => !addedIds.has(item.id)), ...added];
+            collection.updatedAt = now;
+            saveCollection(collection);
+
+            return {
+              content: [{
+                type: "text",
+                text: `✅ Added ${added.length} document${added.length === 1 ? "" : "s"} to '${name}' ` +
+                  `(${collection.items.length} total, $${cost.toFixed(6)})\n\nIds: ${added.map(item => item.id).join(", ")}`,
+              }],
+            };
+          }
+
+          case "query": {
+            if (!query) {
+              return fail("Please provide a query");
+            }
+            if (!existing) {
+              return fail(`Collection '${name}' not found`);
+            }
+
+            const { vectors, cost } = await paidEmbed("blockrun_index", existing.model, [query], extra.signal);
+            const matches = existing.items
+              .map(item => ({ id: item.id, text: item.text, metadata: item.metadata, score: cosineSimilarity(vectors[0], item.vector) }))
+              .sort((a, b) => b.score - a.score)
+              .slice(0, top_k);
+
+            const sections = matches.map((m, i) =>
+              `${i + 1}. [${m.id}] score ${m.score.toFixed(4)}${m.metadata ? ` ${JSON.stringify(m.metadata)}` : ""}\n${m.text}`
+            );
+            return {
+              content: [{
+                type: "text",
+                text: `Top ${matches.length} of ${existing.items.length} in '${name}' ($${cost.toFixed(6)}):\n\n${sections.join("\n\n")}`,
+              }],
+            };
+          }
+
+          case "delete":
+          default: {
+            if (!existing) {
+              return fail(`Collection '${name}' not found`);
+            }
+            if (!ids?.length) {
+              fs.rmSync(collectionFile(name), { force: true });
+              return { content: [{ type: "text", text: `✅ Deleted collection '${name}'` }] };
+            }
+
+            const remove = new Set(ids);
+            const before = existing.items.length;
+            existing.items = existing.items.filter(item => !remove.has(item.id));
+            existing.updatedAt = new Date().toISOString();
+            saveCollection(existing);
+            return { content: [{ type: "text", text: `✅ Deleted ${before - existing.items.length} document(s) from '${name}' (${existing.items.length} left)` }] };
+          }
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // blockrun_wallet - Get wallet info
+  server.registerTool(
+    "blockrun_wallet",
+    {
+      description: "Get information about your BlockRun wallet address. Shows address, network, and quick funding options.",
+      inputSchema: {},
+      outputSchema: {
+        profile: z.string().describe("Active wallet profile"),
+        address: z.string().describe("Wallet address"),
+        network: z.string().describe("Network name"),
+        chainId: z.number().describe("Chain ID"),
+        testnet: z.boolean().describe("Whether the network is a testnet (no real funds)"),
+        currency: z.string().describe("Currency"),
+        isNew: z.boolean().describe("Whether this is a newly created wallet"),
+        basescanUrl: z.string().describe("Link to view on Basescan"),
+      },
     },
-  },
-  async () => {
-    const info = getWalletInfo();
-    const isNewWallet = info.isNew;
+    async () => {
+      const info = getWalletInfo();
+      const isNewWallet = info.isNew;
 
-    let text = `BlockRun Wallet Information
+      let text = `BlockRun Wallet Information
 ============================
 
+Profile: ${info.profile}
 Address: ${info.address}
-Network: ${info.network} (Chain ID: ${info.chainId})
+Network: ${networkLabel()}
 Currency: ${info.currency}
 
 View on Basescan: ${info.basescanUrl}
 `;
 
-    if (isNewWallet) {
-      text += `\nSTATUS: NEW WALLET - NEEDS FUNDING\n${getWalletSetupInstructions()}`;
-    } else {
-      text += `
+      if (isNewWallet) {
+        text += `\nSTATUS: NEW WALLET - NEEDS FUNDING\n${getWalletSetupInstructions()}`;
+      } else if ("faucet" in info.fundingOptions) {
+        text += `
+HOW TO ADD FUNDS:
+-----------------
+Get free testnet USDC on ${info.network} from ${info.fundingOptions.faucet}
+
+Full instructions: Run blockrun_setup tool
+`;
+      } else {
+        text += `
 HOW TO ADD FUNDS:
 -----------------
 Send USDC to the address above on Base network.
@@ -560,168 +4823,412 @@ Quick options:
 
 Full instructions: Run blockrun_setup tool
 `;
+      }
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          profile: info.profile,
+          address: info.address,
+          network: info.network,
+          chainId: info.chainId,
+          testnet: info.testnet,
+          currency: info.currency,
+          isNew: info.isNew,
+          basescanUrl: info.basescanUrl,
+        },
+      };
+    }
+  );
+
+  // blockrun_setup - Detailed setup instructions
+  server.registerTool(
+    "blockrun_setup",
+    {
+      description: `Get detailed wallet setup and funding instructions. Use this for first-time setup or if you need help adding funds to your wallet.
+
+Returns:
+- Your wallet address
+- Step-by-step funding instructions (Coinbase, bridge, direct purchase)
+- Pricing information
+- Security details`,
+      inputSchema: {},
+    },
+    async () => {
+      getClient(); // Initialize wallet
+      return { content: [{ type: "text", text: getWalletSetupInstructions() }] };
+    }
+  );
+
+  // blockrun_twitter - Real-time X/Twitter search via Grok
+  server.registerTool(
+    "blockrun_twitter",
+    {
+      description: `Search real-time X/Twitter data using Grok's live search.
+
+Use this tool for:
+- Checking what people are saying about a topic
+- Finding recent tweets from specific accounts
+- Getting trending discussions
+- Real-time news and events
+
+Example queries:
+- "what is @elonmusk posting about today"
+- "trending AI news"
+- "reactions to [event]"`,
+      inputSchema: {
+        query: z.string().describe("Search query - can include @handles, topics, or natural language questions"),
+        max_results: z.number().optional().default(10).describe("Maximum number of results to return (1-25)"),
+      },
+      outputSchema: {
+        query: z.string(),
+        model: z.string(),
+        response: z.string(),
+      },
+    },
+    withSpendConfirmation(async ({ query, max_results }) => {
+      try {
+        const model = REALTIME_MODEL;
+
+        // System prompt for structured Twitter search
+        const system = `You are a real-time X/Twitter search assistant.
+When searching, focus on:
+- Recent and relevant posts
+- Key accounts and verified sources
+- Engagement metrics when relevant
+Format your response clearly with sources when available.
+Max results requested: ${max_results}`;
+
+        const { text: response } = await paidChat("blockrun_twitter", model, query, {
+          system,
+          search: true,
+        });
+
+        return {
+          content: [{ type: "text", text: `[X/Twitter Search via Grok]\n\n${response}` }],
+          structuredContent: { query, model, response },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    })
+  );
+
+  // blockrun_balance - Get on-chain USDC balance
+  server.registerTool(
+    "blockrun_balance",
+    {
+      description: `Check your on-chain USDC balance on ${network.name}${network.testnet ? " (testnet)" : ""}.
+
+Returns:
+- Current USDC balance
+- Wallet address
+- Link to view on Basescan
+
+Use this to see how much funding you have available for BlockRun API calls.`,
+      inputSchema: {},
+      outputSchema: {
+        profile: z.string(),
+        address: z.string(),
+        balance: z.number().nullable(),
+        network: z.string(),
+        chainId: z.number(),
+        testnet: z.boolean(),
+        basescanUrl: z.string(),
+      },
+    },
+    async () => {
+      const profile = activeProfile;
+      const llm = getClient();
+      const address = llm.getWalletAddress();
+      const balance = await getUsdcBalance(address);
+
+      const balanceStr = balance !== null ? `$${balance.toFixed(6)} USDC` : "Unable to fetch (try again)";
+
+      const text = `BlockRun Wallet Balance
+=======================
+
+Profile: ${profile}
+Address: ${address}
+Balance: ${balanceStr}
+Network: ${networkLabel()}
+
+View on Basescan: ${explorerAddressUrl(address)}
+
+${balance !== null && balance < 1 ? "⚠️  Low balance. Consider adding funds to continue using BlockRun." : ""}`;
+
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          profile,
+          address,
+          balance,
+          network: network.name,
+          chainId: network.chainId,
+          testnet: network.testnet,
+          basescanUrl: explorerAddressUrl(address),
+        },
+      };
     }
+  );
+
+  // blockrun_transactions - On-chain USDC history reconciled with the ledger
+  server.registerTool(
+    "blockrun_transactions",
+    {
+      description: `List your wallet's on-chain USDC transfers on ${network.name} and reconcile them with the local spending ledger.
+
+Transfers are labelled deposit, payment (to BlockRun), refund (from BlockRun) or transfer_out.
+Payments are matched to the tool and model call that caused them. Charges with no ledger
+entry, unexpected credits and ledger entries that never settled on-chain are flagged.
+
+Defaults to the last 24 hours; a range can cover at most 7 days.
+
+Examples:
+- Last 24 hours: blockrun_transactions({})
+- A day: blockrun_transactions({ from: "2025-01-14", to: "2025-01-14" })`,
+      inputSchema: {
+        from: z.string().optional().describe("Start date, inclusive (YYYY-MM-DD or ISO 8601)"),
+        to: z.string().optional().describe("End date, inclusive (YYYY-MM-DD or ISO 8601)"),
+        from_block: z.number().int().nonnegative().optional().describe("Start block (overrides 'from')"),
+        to_block: z.number().int().nonnegative().optional().describe("End block (overrides 'to')"),
+        limit: z.number().int().min(1).max(500).optional().default(50).describe("Most recent transfers to list"),
+      },
+      outputSchema: {
+        profile: z.string(),
+        address: z.string(),
+        network: z.string(),
+        fromBlock: z.number(),
+        toBlock: z.number(),
+        totals: z.object({
+          deposits: z.number(),
+          payments: z.number(),
+          refunds: z.number(),
+          transfersOut: z.number(),
+        }).describe("USDC totals over the whole range"),
+        transactions: z.array(z.object({
+          txHash: z.string(),
+          block: z.number(),
+          timestamp: z.string().nullable(),
+          kind: z.enum(["deposit", "payment", "refund", "transfer_out"]),
+          amount: z.number(),
+          counterparty: z.string(),
+          matched: z.object({
+            timestamp: z.string(),
+            tool: z.string(),
+            model: z.string(),
+            cost: z.number(),
+            paymentRef: z.string(),
+          }).nullable().describe("Ledger entry this payment settled"),
+          flag: z.string().optional(),
+        })),
+        flagged: z.number().describe("Transfers in the range that need a look"),
+        unsettled: z.array(z.object({
+          timestamp: z.string(),
+          tool: z.string(),
+          model: z.string(),
+          cost: z.number(),
+          paymentRef: z.string().nullable(),
+        })).describe("Paid ledger entries in the range with no matching on-chain transfer"),
+      },
+    },
+    async ({ from, to, from_block, to_block, limit }) => {
+      // On-chain history covers every token's payments from the shared wallet
+      if (clientScope.getStore()) {
+        return {
+          content: [{ type: "text", text: "Error: blockrun_transactions shows the whole wallet's history, so it isn't available over HTTP" }],
+          isError: true,
+        };
+      }
+      try {
+        const profile = activeProfile;
+        const address = getClient().getWalletAddress();
 
-    return {
-      content: [{ type: "text", text }],
-      structuredContent: {
-        address: info.address,
-        network: info.network,
-        chainId: info.chainId,
-        currency: info.currency,
-        isNew: info.isNew,
-        basescanUrl: info.basescanUrl,
-      },
-    };
-  }
-);
+        const fromDate = from ? new Date(from) : undefined;
+        // A bare date as the end of the range means the whole day
+        const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : undefined;
+        if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+          throw new Error("Invalid date. Use YYYY-MM-DD or an ISO 8601 timestamp.");
+        }
 
-// blockrun_setup - Detailed setup instructions
-server.registerTool(
-  "blockrun_setup",
-  {
-    description: `Get detailed wallet setup and funding instructions. Use this for first-time setup or if you need help adding funds to your wallet.
+        const latest = await getBlock("latest");
+        const toBlock = Math.min(to_block ?? (toDate ? await blockAtTime(toDate.getTime(), latest) : latest.number), latest.number);
+        const fromBlock = from_block ?? (fromDate ? await blockAtTime(fromDate.getTime(), latest) : Math.max(toBlock - DEFAULT_HISTORY_BLOCKS, 0));
+        if (fromBlock > toBlock) {
+          throw new Error(`The range starts (block ${fromBlock}) after it ends (block ${toBlock})`);
+        }
+        if (toBlock - fromBlock > MAX_HISTORY_BLOCKS) {
+          throw new Error(`The range covers ${toBlock - fromBlock} blocks; the limit is ${MAX_HISTORY_BLOCKS} (7 days). Narrow it with from/to.`);
+        }
 
-Returns:
-- Your wallet address
-- Step-by-step funding instructions (Coinbase, bridge, direct purchase)
-- Pricing information
-- Security details`,
-    inputSchema: {},
-  },
-  async () => {
-    getClient(); // Initialize wallet
-    return { content: [{ type: "text", text: getWalletSetupInstructions() }] };
-  }
-);
+        // Block times are fixed, so timestamps follow from the end of the range
+        const end = toBlock === latest.number ? latest : await getBlock(toBlock);
+        const blockTime = (block: number) => (end.timestamp - (toBlock - block) * BLOCK_TIME_SECONDS) * 1000;
 
-// blockrun_twitter - Real-time X/Twitter search via Grok
-server.registerTool(
-  "blockrun_twitter",
-  {
-    description: `Search real-time X/Twitter data using Grok's live search.
+        const ledger = readLedger().filter(e => (e.network ?? "base") === network.id);
+        const transfers = await getWalletTransfers(address, fromBlock, toBlock, ledger);
+        for (const t of transfers) {
+          t.timestamp = new Date(blockTime(t.block)).toISOString();
+        }
 
-Use this tool for:
-- Checking what people are saying about a topic
-- Finding recent tweets from specific accounts
-- Getting trending discussions
-- Real-time news and events
+        const sum = (kind: WalletTransfer["kind"]) =>
+          transfers.filter(t => t.kind === kind).reduce((total, t) => total + t.amount, 0);
+        const totals = {
+          deposits: sum("deposit"),
+          payments: sum("payment"),
+          refunds: sum("refund"),
+          transfersOut: sum("transfer_out"),
+        };
 
-Example queries:
-- "what is @elonmusk posting about today"
-- "trending AI news"
-- "reactions to [event]"`,
-    inputSchema: {
-      query: z.string().describe("Search query - can include @handles, topics, or natural language questions"),
-      max_results: z.number().optional().default(10).describe("Maximum number of results to return (1-25)"),
-    },
-    outputSchema: {
-      query: z.string(),
-      model: z.string(),
-      response: z.string(),
-    },
-  },
-  async ({ query, max_results }) => {
-    // Check budget first
-    const budget = checkBudget();
-    if (!budget.allowed) {
-      return {
-        content: [{ type: "text", text: `Budget limit reached. Spent $${sessionBudget.spent.toFixed(4)} of $${sessionBudget.limit?.toFixed(2)} limit.\n\nUse blockrun_budget to check or adjust your budget.` }],
-        isError: true,
-      };
-    }
+        // Paid ledger entries from the range that never showed up on-chain
+        const matchedRefs = new Set(transfers.flatMap(t => t.matched ? [t.matched.paymentRef] : []));
+        const rangeStart = blockTime(fromBlock);
+        const rangeEnd = blockTime(toBlock);
+        const unsettled = ledger
+          .filter(e => e.cost > 0 && !(e.paymentRef && matchedRefs.has(e.paymentRef)))
+          .filter(e => {
+            const time = new Date(e.timestamp).getTime();
+            return time >= rangeStart && time <= rangeEnd;
+          })
+          .map(e => ({ timestamp: e.timestamp, tool: e.tool, model: e.model, cost: e.cost, paymentRef: e.paymentRef }));
 
-    try {
-      const llm = getClient();
-      const model = "xai/grok-3";
+        const flagged = transfers.filter(t => t.flag).length;
+        const listed = transfers.slice(0, limit);
+        const lines = listed.map(t => {
+          const sign = t.kind === "deposit" || t.kind === "refund" ? "+" : "-";
+          const detail = t.matched ? `${t.matched.tool} ${t.matched.model}` : t.counterparty;
+          return `${t.timestamp!.slice(0, 19).replace("T", " ")}  ${t.kind.padEnd(12)} ${`${sign}$${t.amount.toFixed(6)}`.padStart(12)}  ${detail}\n` +
+            `    ${network.explorerUrl}/tx/${t.txHash}` +
+            (t.flag ? `\n    ⚠️  ${t.flag}` : "");
+        });
 
-      // System prompt for structured Twitter search
-      const system = `You are a real-time X/Twitter search assistant.
-When searching, focus on:
-- Recent and relevant posts
-- Key accounts and verified sources
-- Engagement metrics when relevant
-Format your response clearly with sources when available.
-Max results requested: ${max_results}`;
+        const text = `BlockRun Wallet Transactions
+============================
 
-      // Use type assertion - search is supported by Grok but not in SDK types yet
-      const response = await llm.chat(model, query, {
-        system,
-        search: true,
-      } as Parameters<typeof llm.chat>[2] & { search?: boolean });
+Profile: ${profile}
+Address: ${address}
+Network: ${networkLabel()}
+Blocks:  ${fromBlock} - ${toBlock} (${new Date(rangeStart).toISOString()} to ${new Date(rangeEnd).toISOString()})
 
-      // Estimate cost (Grok is ~$0.002/call)
-      recordSpending(0.002);
+Deposits:      $${totals.deposits.toFixed(6)}
+Payments:      $${totals.payments.toFixed(6)}
+Refunds:       $${totals.refunds.toFixed(6)}
+Transfers out: $${totals.transfersOut.toFixed(6)}
+${flagged > 0 ? `\n⚠️  ${flagged} transfer${flagged === 1 ? "" : "s"} flagged for review\n` : ""}
+${transfers.length === 0 ? "No USDC transfers in this range." : `Transfers (${listed.length} of ${transfers.length}, newest first):\n\n${lines.join("\n")}`}
+${unsettled.length > 0 ? `\n⚠️  ${unsettled.length} paid ledger entr${unsettled.length === 1 ? "y has" : "ies have"} no on-chain transfer in this range:\n` +
+  unsettled.map(e => `  ${e.timestamp}  ${e.tool} ${e.model}  $${e.cost.toFixed(6)}  ${e.paymentRef ?? "(no payment reference)"}`).join("\n") : ""}`;
 
-      return {
-        content: [{ type: "text", text: `[X/Twitter Search via Grok]\n\n${response}` }],
-        structuredContent: { query, model, response },
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: "text", text: formatError(errorMessage) }],
-        isError: true,
-      };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            profile,
+            address,
+            network: network.name,
+            fromBlock,
+            toBlock,
+            totals,
+            transactions: listed,
+            flagged,
+            unsettled,
+          },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
     }
-  }
-);
+  );
 
-// blockrun_balance - Get on-chain USDC balance
-server.registerTool(
-  "blockrun_balance",
-  {
-    description: `Check your on-chain USDC balance on Base network.
+  // blockrun_profile - Named wallet profiles
+  server.registerTool(
+    "blockrun_profile",
+    {
+      description: `Manage named wallet profiles, e.g. one for personal experiments and one per client project.
 
-Returns:
-- Current USDC balance
-- Wallet address
-- Link to view on Basescan
+Each profile has its own wallet, session budget and spending ledger. The "default" profile is
+the original wallet (~/.blockrun/.session or BLOCKRUN_WALLET_KEY).
 
-Use this to see how much funding you have available for BlockRun API calls.`,
-    inputSchema: {},
-    outputSchema: {
-      address: z.string(),
-      balance: z.number().nullable(),
-      network: z.string(),
-      basescanUrl: z.string(),
+Actions:
+- list: Show all profiles and which one is active
+- create: Create a profile with a new wallet (optionally with a session budget)
+- switch: Make a profile active; later payments use its wallet, budget and ledger`,
+      inputSchema: {
+        action: z.enum(["list", "create", "switch"]).describe("Profile action to perform"),
+        name: z.string().optional().describe("Profile name (required for 'create' and 'switch')"),
+        budget: z.number().positive().optional().describe("Session budget in USD for a new profile (default unlimited)"),
+      },
+      outputSchema: {
+        active: z.string(),
+        profiles: z.array(z.object({
+          name: z.string(),
+          address: z.string().nullable(),
+          active: z.boolean(),
+          budget: z.number().nullable(),
+        })),
+      },
     },
-  },
-  async () => {
-    const llm = getClient();
-    const address = llm.getWalletAddress();
-    const balance = await getUsdcBalance(address);
+    async ({ action, name, budget }) => {
+      try {
+        let note = "";
+        if (action !== "list" && !name) {
+          throw new Error(`A profile name is required for '${action}'`);
+        }
 
-    const balanceStr = balance !== null ? `$${balance.toFixed(6)} USDC` : "Unable to fetch (try again)";
+        // One wallet per server process: HTTP clients share it, so only the operator may manage profiles
+        if (action !== "list" && clientScope.getStore()) {
+          throw new Error(`Profiles can't be ${action === "create" ? "created" : "switched"} over HTTP. Manage them on the server and start it with BLOCKRUN_PROFILE.`);
+        }
 
-    const text = `BlockRun Wallet Balance
-=======================
+        if (action === "create") {
+          const created = createProfile(name!, budget ?? null);
+          note = `Created profile '${created.name}' with wallet ${created.address}. Fund it with USDC on ${network.name}, then switch to it.\n\n`;
+        } else if (action === "switch") {
+          switchProfile(name!);
+          note = `Switched to profile '${name}'.\n\n`;
+        }
 
-Address: ${address}
-Balance: ${balanceStr}
-Network: Base (Chain ID: 8453)
+        const profiles = listProfiles();
+        const lines = profiles.map(p =>
+          `${p.active ? "*" : " "} ${p.name.padEnd(16)} ${p.address ?? "(no wallet yet)"}` +
+          (p.budget !== null ? `  budget $${p.budget.toFixed(2)}` : "")
+        );
 
-View on Basescan: https://basescan.org/address/${address}
+        const text = `${note}BlockRun Profiles
+=================
 
-${balance !== null && balance < 1 ? "⚠️  Low balance. Consider adding funds to continue using BlockRun." : ""}`;
+Network: ${networkLabel()}
 
-    return {
-      content: [{ type: "text", text }],
-      structuredContent: {
-        address,
-        balance,
-        network: "Base",
-        basescanUrl: `https://basescan.org/address/${address}`,
-      },
-    };
-  }
-);
+${lines.join("\n")}
+
+* = active`;
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { active: activeProfile, profiles },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: formatError(errorMessage) }],
+          isError: true,
+        };
+      }
+    }
+  );
 
-// blockrun_budget - Session budget management
-server.registerTool(
-  "blockrun_budget",
-  {
-    description: `Manage your session spending budget.
+  // blockrun_budget - Session budget management
+  server.registerTool(
+    "blockrun_budget",
+    {
+      description: `Manage your session spending budget.
 
 Actions:
 - check: View current spending and budget status
@@ -729,180 +5236,373 @@ Actions:
 - clear: Remove spending limit (unlimited)
 
 Use this to control how much you spend per session on BlockRun API calls.`,
-    inputSchema: {
-      action: z.enum(["check", "set", "clear"]).describe("Budget action to perform"),
-      amount: z.number().optional().describe("Budget limit in USD (required for 'set' action)"),
-    },
-    outputSchema: {
-      limit: z.number().nullable(),
-      spent: z.number(),
-      calls: z.number(),
-      remaining: z.number().nullable(),
+      inputSchema: {
+        action: z.enum(["check", "set", "clear"]).describe("Budget action to perform"),
+        amount: z.number().optional().describe("Budget limit in USD (required for 'set' action)"),
+      },
+      outputSchema: {
+        limit: z.number().nullable(),
+        spent: z.number(),
+        calls: z.number(),
+        remaining: z.number().nullable(),
+      },
     },
-  },
-  async ({ action, amount }) => {
-    switch (action) {
-      case "set":
-        if (amount === undefined || amount <= 0) {
-          return {
-            content: [{ type: "text", text: "Error: Please provide a positive amount for the budget limit (e.g., amount: 1.00 for $1.00)" }],
-            isError: true,
-          };
-        }
-        sessionBudget.limit = amount;
-        break;
+    async ({ action, amount }) => {
+      const budget = currentBudget();
+      // HTTP clients can't raise their limit above what the operator granted
+      const maxLimit = clientScope.getStore()?.maxLimit ?? null;
 
-      case "clear":
-        sessionBudget.limit = null;
-        break;
+      switch (action) {
+        case "set":
+          if (amount === undefined || amount <= 0) {
+            return {
+              content: [{ type: "text", text: "Error: Please provide a positive amount for the budget limit (e.g., amount: 1.00 for $1.00)" }],
+              isError: true,
+            };
+          }
+          if (maxLimit !== null && amount > maxLimit) {
+            return {
+              content: [{ type: "text", text: `Error: Your budget limit can't exceed $${maxLimit.toFixed(2)}, the limit set by the server operator for this token.` }],
+              isError: true,
+            };
+          }
+          budget.limit = amount;
+          break;
 
-      case "check":
-      default:
-        // Just report status
-        break;
-    }
+        case "clear":
+          budget.limit = maxLimit;
+          break;
+
+        case "check":
+        default:
+          // Just report status
+          break;
+      }
 
-    const remaining = sessionBudget.limit !== null ? sessionBudget.limit - sessionBudget.spent : null;
-    const limitStr = sessionBudget.limit !== null ? `$${sessionBudget.limit.toFixed(2)}` : "Unlimited";
-    const remainingStr = remaining !== null ? `$${remaining.toFixed(4)}` : "N/A";
+      const remaining = budget.limit !== null ? budget.limit - budget.spent : null;
+      const limitStr = budget.limit !== null ? `$${budget.limit.toFixed(2)}` : "Unlimited";
+      const remainingStr = remaining !== null ? `$${remaining.toFixed(4)}` : "N/A";
 
-    const text = `BlockRun Session Budget
+      const text = `BlockRun Session Budget
 =======================
 
 Limit: ${limitStr}
-Spent: $${sessionBudget.spent.toFixed(4)}
-Calls: ${sessionBudget.calls}
+Spent: $${budget.spent.toFixed(4)}
+Calls: ${budget.calls}
 Remaining: ${remainingStr}
 
 ${action === "set" ? `✅ Budget set to $${amount?.toFixed(2)}` : ""}
-${action === "clear" ? "✅ Budget limit removed (unlimited spending)" : ""}
+${action === "clear" ? (maxLimit !== null ? `✅ Budget reset to the operator limit ($${maxLimit.toFixed(2)})` : "✅ Budget limit removed (unlimited spending)") : ""}
 ${remaining !== null && remaining < 0.01 ? "⚠️  Budget nearly exhausted!" : ""}`;
 
-    return {
-      content: [{ type: "text", text }],
-      structuredContent: {
-        limit: sessionBudget.limit,
-        spent: sessionBudget.spent,
-        calls: sessionBudget.calls,
-        remaining,
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          limit: budget.limit,
+          spent: budget.spent,
+          calls: budget.calls,
+          remaining,
+        },
+      };
+    }
+  );
+
+  // blockrun_spending - Persistent spending report
+  server.registerTool(
+    "blockrun_spending",
+    {
+      description: `Report spending across sessions from the local ledger (~/.blockrun/ledger.jsonl).
+
+Every paid call is recorded with its tool, model, token counts, cost and payment reference.
+The report groups spending by day, model and tool.
+
+Examples:
+- Last 7 days: blockrun_spending({ days: 7 })
+- A date range as CSV: blockrun_spending({ from: "2025-01-01", to: "2025-01-31", format: "csv" })`,
+      inputSchema: {
+        days: z.number().optional().describe("Only include the last N days (ignored if 'from' is set)"),
+        from: z.string().optional().describe("Start date, inclusive (YYYY-MM-DD or ISO 8601)"),
+        to: z.string().optional().describe("End date, inclusive (YYYY-MM-DD or ISO 8601)"),
+        format: z.enum(["text", "csv"]).optional().default("text").describe("'csv' returns every ledger entry in the range for export"),
       },
-    };
-  }
-);
+      outputSchema: {
+        from: z.string().nullable(),
+        to: z.string().nullable(),
+        total: z.number(),
+        calls: z.number(),
+        byDay: z.array(z.object({ key: z.string(), cost: z.number(), calls: z.number() })),
+        byModel: z.array(z.object({ key: z.string(), cost: z.number(), calls: z.number() })),
+        byTool: z.array(z.object({ key: z.string(), cost: z.number(), calls: z.number() })),
+      },
+    },
+    async ({ days, from, to, format }) => {
+      const fromDate = from ? new Date(from) : days !== undefined ? new Date(Date.now() - days * 86400000) : undefined;
+      // A bare date as the end of the range means the whole day
+      const toDate = to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to) : undefined;
 
-// ============================================================================
-// RESOURCES
-// ============================================================================
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return {
+          content: [{ type: "text", text: "Error: Invalid date. Use YYYY-MM-DD or an ISO 8601 timestamp." }],
+          isError: true,
+        };
+      }
 
-// Wallet resource - read wallet info as structured data
-server.registerResource(
-  "wallet",
-  "blockrun://wallet",
-  {
-    description: "Your BlockRun wallet address and status",
-    mimeType: "application/json",
-  },
-  async () => {
-    const info = getWalletInfo();
-    return {
-      contents: [{
-        uri: "blockrun://wallet",
-        mimeType: "application/json",
-        text: JSON.stringify(info, null, 2),
-      }],
-    };
-  }
-);
+      const entries = readLedger(fromDate, toDate);
+      const report = buildSpendingReport(entries, fromDate, toDate);
+      const text = format === "csv" ? ledgerToCsv(entries) : formatSpendingReport(report);
 
-// Models resource - list all available models
-server.registerResource(
-  "models",
-  "blockrun://models",
-  {
-    description: "List of all available AI models with pricing",
-    mimeType: "application/json",
-  },
-  async () => {
-    const llm = getClient();
-    if (!cachedModels) {
-      cachedModels = await llm.listModels();
-      setTimeout(() => { cachedModels = null; }, 5 * 60 * 1000);
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: { ...report },
+      };
     }
-    return {
+  );
+
+  // blockrun_conversations - Manage multi-turn conversations
+  server.registerTool(
+    "blockrun_conversations",
+    {
+      description: `Manage multi-turn conversations started with blockrun_chat's conversation_id.
+
+Actions:
+- list: Show all saved conversations
+- get: Show the full history of a conversation
+- fork: Copy a conversation to a new id (to branch it with a different model or question)
+- delete: Delete a conversation
+
+Conversations are also readable as resources at blockrun://conversations/{id}.`,
+      inputSchema: {
+        action: z.enum(["list", "get", "fork", "delete"]).describe("Conversation action to perform"),
+        id: z.string().optional().describe("Conversation id (required for get, fork and delete)"),
+        new_id: z.string().optional().describe("Id for the forked copy (fork only; generated if omitted)"),
+      },
+    },
+    async ({ action, id, new_id }) => {
+      if (action === "list") {
+        const conversations = listConversations();
+        const lines = conversations.map(c =>
+          `- ${c.id}: ${c.messages.length} messages${c.model ? `, last model ${c.model}` : ""} (updated ${c.updatedAt})`
+        );
+        return {
+          content: [{ type: "text", text: conversations.length ? `Conversations (${conversations.length}):\n\n${lines.join("\n")}` : "No saved conversations." }],
+        };
+      }
+
+      const conversation = id && isValidConversationId(id) ? loadConversation(id) : null;
+      if (!conversation) {
+        return {
+          content: [{ type: "text", text: `Error: ${id ? `Conversation '${id}' not found` : "Please provide a conversation id"}` }],
+          isError: true,
+        };
+      }
+
+      switch (action) {
+        case "get":
+          return { content: [{ type: "text", text: formatConversation(conversation) }] };
+
+        case "fork": {
+          const forkId = new_id || `${conversation.id}-${crypto.randomBytes(3).toString("hex")}`;
+          if (!isValidConversationId(forkId) || loadConversation(forkId)) {
+            return {
+              content: [{ type: "text", text: `Error: '${forkId}' is not a valid, unused conversation id` }],
+              isError: true,
+            };
+          }
+          const now = new Date().toISOString();
+          saveConversation({ ...conversation, id: forkId, forkedFrom: conversation.id, createdAt: now, updatedAt: now });
+          return { content: [{ type: "text", text: `✅ Forked '${conversation.id}' to '${forkId}' (${conversation.messages.length} messages). Continue it with blockrun_chat({ conversation_id: "${forkId}", ... })` }] };
+        }
+
+        case "delete":
+        default:
+          fs.rmSync(conversationFile(conversation.id), { force: true });
+          return { content: [{ type: "text", text: `✅ Deleted conversation '${conversation.id}'` }] };
+      }
+    }
+  );
+
+  // ============================================================================
+  // RESOURCES
+  // ============================================================================
+
+  // Wallet resource - read wallet info as structured data
+  server.registerResource(
+    "wallet",
+    "blockrun://wallet",
+    {
+      description: "Your BlockRun wallet address and status",
+      mimeType: "application/json",
+    },
+    async () => {
+      const info = getWalletInfo();
+      return {
+        contents: [{
+          uri: "blockrun://wallet",
+          mimeType: "application/json",
+          text: JSON.stringify(info, null, 2),
+        }],
+      };
+    }
+  );
+
+  // Models resource - list all available models
+  server.registerResource(
+    "models",
+    "blockrun://models",
+    {
+      description: "List of all available AI models with pricing",
+      mimeType: "application/json",
+    },
+    async () => {
+      const models = await getModels();
+      return {
+        contents: [{
+          uri: "blockrun://models",
+          mimeType: "application/json",
+          text: JSON.stringify(models, null, 2),
+        }],
+      };
+    }
+  );
+
+  // Spending resource - all-time ledger report
+  server.registerResource(
+    "spending",
+    "blockrun://spending",
+    {
+      description: "Spending from the local ledger, grouped by day, model and tool",
+      mimeType: "application/json",
+    },
+    async () => {
+      const report = buildSpendingReport(readLedger());
+      return {
+        contents: [{
+          uri: "blockrun://spending",
+          mimeType: "application/json",
+          text: JSON.stringify(report, null, 2),
+        }],
+      };
+    }
+  );
+
+  // Stats resource - call counts and latency since the server started
+  server.registerResource(
+    "stats",
+    "blockrun://stats",
+    {
+      description: "Upstream call counts, errors and p50/p95 latency, by model and by tool",
+      mimeType: "application/json",
+    },
+    async () => ({
       contents: [{
-        uri: "blockrun://models",
+        uri: "blockrun://stats",
         mimeType: "application/json",
-        text: JSON.stringify(cachedModels, null, 2),
+        text: JSON.stringify(buildStatsReport(), null, 2),
       }],
-    };
-  }
-);
+    })
+  );
 
-// ============================================================================
-// PROMPTS
-// ============================================================================
+  // Conversation resources - one per saved conversation
+  server.registerResource(
+    "conversation",
+    new ResourceTemplate("blockrun://conversations/{id}", {
+      list: async () => ({
+        resources: listConversations().map(c => ({
+          uri: `blockrun://conversations/${c.id}`,
+          name: c.id,
+          description: `${c.messages.length} messages${c.model ? `, last model ${c.model}` : ""}`,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      description: "A saved blockrun_chat conversation with its full message history",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      const conversationId = String(id);
+      const conversation = isValidConversationId(conversationId) ? loadConversation(conversationId) : null;
+      if (!conversation) {
+        throw new Error(`Conversation '${conversationId}' not found`);
+      }
+      return {
+        contents: [{
+          uri: uri.href,
+          mimeType: "application/json",
+          text: JSON.stringify(conversation, null, 2),
+        }],
+      };
+    }
+  );
 
-// Quick chat prompt
-server.registerPrompt(
-  "quick_chat",
-  {
-    description: "Start a quick chat with a recommended model",
-    argsSchema: {
-      message: z.string().describe("Your message"),
-      style: z.enum(["concise", "detailed", "creative"]).optional().default("concise").describe("Response style"),
+  // ============================================================================
+  // PROMPTS
+  // ============================================================================
+
+  // Quick chat prompt
+  server.registerPrompt(
+    "quick_chat",
+    {
+      description: "Start a quick chat with a recommended model",
+      argsSchema: {
+        message: z.string().describe("Your message"),
+        style: z.enum(["concise", "detailed", "creative"]).optional().default("concise").describe("Response style"),
+      },
     },
-  },
-  async ({ message, style }) => {
-    const systemPrompts: Record<string, string> = {
-      concise: "Be concise and direct. Give short, focused answers.",
-      detailed: "Provide thorough, comprehensive answers with examples.",
-      creative: "Be creative and imaginative in your responses.",
-    };
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: `[System: ${systemPrompts[style || "concise"]}]\n\n${message}`,
+    async ({ message, style }) => {
+      const systemPrompts: Record<string, string> = {
+        concise: "Be concise and direct. Give short, focused answers.",
+        detailed: "Provide thorough, comprehensive answers with examples.",
+        creative: "Be creative and imaginative in your responses.",
+      };
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `[System: ${systemPrompts[style || "concise"]}]\n\n${message}`,
+            },
           },
-        },
-      ],
-    };
-  }
-);
+        ],
+      };
+    }
+  );
 
-// Code review prompt
-server.registerPrompt(
-  "code_review",
-  {
-    description: "Get a code review from a powerful model",
-    argsSchema: {
-      code: z.string().describe("The code to review"),
-      language: z.string().optional().describe("Programming language"),
-      focus: z.enum(["bugs", "performance", "style", "all"]).optional().default("all").describe("What to focus on"),
+  // Code review prompt
+  server.registerPrompt(
+    "code_review",
+    {
+      description: "Get a code review from a powerful model",
+      argsSchema: {
+        code: z.string().describe("The code to review"),
+        language: z.string().optional().describe("Programming language"),
+        focus: z.enum(["bugs", "performance", "style", "all"]).optional().default("all").describe("What to focus on"),
+      },
     },
-  },
-  async ({ code, language, focus }) => {
-    const focusInstructions: Record<string, string> = {
-      bugs: "Focus on potential bugs, errors, and edge cases.",
-      performance: "Focus on performance issues and optimization opportunities.",
-      style: "Focus on code style, readability, and best practices.",
-      all: "Review for bugs, performance, and style.",
-    };
-    return {
-      messages: [
-        {
-          role: "user",
-          content: {
-            type: "text",
-            text: `Please review this ${language || ""} code. ${focusInstructions[focus || "all"]}\n\n\`\`\`${language || ""}\n${code}\n\`\`\``,
+    async ({ code, language, focus }) => {
+      const focusInstructions: Record<string, string> = {
+        bugs: "Focus on potential bugs, errors, and edge cases.",
+        performance: "Focus on performance issues and optimization opportunities.",
+        style: "Focus on code style, readability, and best practices.",
+        all: "Review for bugs, performance, and style.",
+      };
+      return {
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `Please review this ${language || ""} code. ${focusInstructions[focus || "all"]}\n\n\`\`\`${language || ""}\n${code}\n\`\`\``,
+            },
           },
-        },
-      ],
-    };
-  }
-);
+        ],
+      };
+    }
+  );
+
+  return server;
+}
 
 // ============================================================================
 // ERROR HANDLING
@@ -920,7 +5620,7 @@ function formatError(message: string): string {
     errorText += `\n\n` +
       `This error usually means your wallet needs funding.\n` +
       `Run the blockrun_setup tool to get your wallet address and funding instructions.\n\n` +
-      `Quick fix: Send USDC to your wallet on Base network.`;
+      `Quick fix: Send USDC to your wallet on ${network.name}.`;
   }
 
   return errorText;
@@ -930,10 +5630,167 @@ function formatError(message: string): string {
 // START SERVER
 // ============================================================================
 
+/**
+ * Parse HTTP clients from BLOCKRUN_HTTP_TOKENS: comma-separated
+ * name:token[:budgetUsd] entries, e.g. "alice:s3cret:5,ci:t0ken:0.50"
+ */
+function parseHttpClients(spec: string): HttpClient[] {
+  const clients = spec.split(",").map(s => s.trim()).filter(Boolean).map(entry => {
+    const [name, token, budget] = entry.split(":");
+    if (!name || !token) {
+      throw new Error(`Invalid BLOCKRUN_HTTP_TOKENS entry '${entry}' (expected name:token[:budgetUsd])`);
+    }
+    // Names become directory names for the client's own conversations, index and cache
+    if (!/^[A-Za-z0-9_-][A-Za-z0-9_.-]{0,63}$/.test(name)) {
+      throw new Error(`Invalid name '${name}' in BLOCKRUN_HTTP_TOKENS: use letters, numbers, '_', '-' and '.'`);
+    }
+    const limit = budget ? Number(budget) : null;
+    if (limit !== null && !(limit > 0)) {
+      throw new Error(`Invalid budget for '${name}' in BLOCKRUN_HTTP_TOKENS: ${budget}`);
+    }
+    return {
+      name,
+      tokenHash: crypto.createHash("sha256").update(token).digest(),
+      budget: { limit, spent: 0, calls: 0, reserved: 0 },
+      maxLimit: limit,
+    };
+  });
+
+  const duplicate = clients.find((c, i) => clients.findIndex(other => other.name === c.name) !== i);
+  if (duplicate) {
+    throw new Error(`Duplicate name '${duplicate.name}' in BLOCKRUN_HTTP_TOKENS: each token needs its own name`);
+  }
+  return clients;
+}
+
+/**
+ * Find the client for a request's bearer token
+ */
+function authenticate(req: http.IncomingMessage, clients: HttpClient[]): HttpClient | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+  if (!match) return null;
+  const hash = crypto.createHash("sha256").update(match[1].trim()).digest();
+  return clients.find(c => crypto.timingSafeEqual(c.tokenHash, hash)) ?? null;
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp. Every request needs a bearer
+ * token; each token spends against its own budget from the shared wallet.
+ */
+async function startHttpServer(host: string, port: number, metrics: boolean): Promise<void> {
+  const clients = parseHttpClients(process.env.BLOCKRUN_HTTP_TOKENS || "");
+  if (clients.length === 0) {
+    throw new Error("HTTP mode requires BLOCKRUN_HTTP_TOKENS (comma-separated name:token[:budgetUsd] entries)");
+  }
+
+  // Sessions by id, and which client opened each one
+  const sessions = new Map<string, { transport: StreamableHTTPServerTransport; client: HttpClient }>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const sendError = (status: number, message: string, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+    };
+
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+    if (pathname !== "/mcp" && !(metrics && pathname === "/metrics")) {
+      return sendError(404, "Not found");
+    }
+
+    const client = authenticate(req, clients);
+    if (!client) {
+      return sendError(401, "Missing or invalid bearer token", { "WWW-Authenticate": 'Bearer realm="blockrun-mcp"' });
+    }
+
+    if (pathname === "/metrics") {
+      res.writeHead(200, { "Content-Type": "application/openmetrics-text; version=1.0.0; charset=utf-8" });
+      res.end(formatOpenMetrics());
+      return;
+    }
+
+    try {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (sessionId && !session) {
+        return sendError(404, "Session not found");
+      }
+      if (session && session.client !== client) {
+        return sendError(403, "Session belongs to a different token");
+      }
+
+      if (!session) {
+        if (req.method !== "POST") {
+          return sendError(400, "No session: send an initialize request first");
+        }
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: id => { sessions.set(id, { transport, client }); },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+        await createServer(client).connect(transport);
+        session = { transport, client };
+      }
+
+      // Tool calls in this request spend against the client's budget
+      const { transport } = session;
+      await clientScope.run(client, () => transport.handleRequest(req, res));
+    } catch (error) {
+      console.error("[BlockRun] HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendError(500, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, resolve);
+  });
+  console.error(`BlockRun MCP Server started (Streamable HTTP on http://${host}:${port}/mcp, ${networkLabel()}, ${clients.length} token${clients.length === 1 ? "" : "s"}${metrics ? ", OpenMetrics at /metrics" : ""})`);
+}
+
 async function main() {
+  // Fail fast on a broken config file, then pick up edits while running
+  config = loadConfig();
+  watchConfig();
+  network = resolveNetwork();
+
+  // BLOCKRUN_PROFILE picks the starting profile; it must already exist
+  const startMeta = readProfileMeta(activeProfile);
+  if (!startMeta) {
+    throw new Error(`Unknown profile '${activeProfile}' in BLOCKRUN_PROFILE. Create it with the blockrun_profile tool first.`);
+  }
+  sessionBudget.limit = startMeta.budget;
+
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean", default: false },
+      port: { type: "string" },
+      host: { type: "string" },
+      metrics: { type: "boolean", default: false },
+      "encrypt-wallet": { type: "boolean", default: false },
+    },
+    strict: false,
+  });
+
+  if (values["encrypt-wallet"]) {
+    encryptWalletFile();
+    return;
+  }
+
+  if (values.http) {
+    const port = Number(values.port ?? process.env.BLOCKRUN_HTTP_PORT ?? DEFAULT_HTTP_PORT);
+    const host = String(values.host ?? process.env.BLOCKRUN_HTTP_HOST ?? "127.0.0.1");
+    await startHttpServer(host, port, Boolean(values.metrics));
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("BlockRun MCP Server started (v0.1.0)");
+  await createServer().connect(transport);
+  console.error(`BlockRun MCP Server started (v${VERSION}, ${networkLabel()})`);
 }
 
 main().catch((error) => {